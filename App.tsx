@@ -1,88 +1,328 @@
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { strToU8, zipSync } from 'fflate';
 import Header from './components/Header';
-import { localConvertToLlmTxt } from './services/conversionService';
-import { ConversionState } from './types';
+import OutputOptions from './components/OutputOptions';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import TokenPanel from './components/TokenPanel';
+import ChangelogUpload, { ChangelogSide } from './components/ChangelogUpload';
+import OperationFilterPanel from './components/OperationFilterPanel';
+import EnvironmentPicker from './components/EnvironmentPicker';
+import TemplateEditor from './components/TemplateEditor';
+import EnhancePanel from './components/EnhancePanel';
+import EnhanceDiff from './components/EnhanceDiff';
+import OutputViewer from './components/OutputViewer';
+import MarkdownView from './components/MarkdownView';
+import SpecEditor, { SourceTarget } from './components/SpecEditor';
+import { localConvertToChangelog } from './services/conversionService';
+import { ConversionJob, convertInWorker } from './services/conversionClient';
+import { describeSpecFormat, isRootSpecContent } from './services/specParser';
+import { enhanceFiles, EnhanceProgress } from './services/enhanceService';
+import { DEFAULT_TEMPLATES } from './services/templateService';
+import { locatePointer, pointerAtLine } from './services/sourceMapService';
+import { ConversionOptions, ConversionProgress, ConversionState, EnhanceResult, LlmProviderConfig, OperationFilter, OutputTemplates, SpecInput } from './types';
+
+type AppMode = 'convert' | 'changelog';
+
+type OutputView = 'raw' | 'rendered';
+
+const FILTER_STORAGE_KEY = 'jsonschema-2-llmtxt:filter';
+
+const TEMPLATES_STORAGE_KEY = 'jsonschema-2-llmtxt:templates';
+
+// Largest upload accepted, all selected files together; set MAX_SPEC_SIZE_MB in .env.local to change it
+const MAX_SPEC_SIZE_MB = Number(process.env.MAX_SPEC_SIZE_MB) || 5;
+
+// Edits in the spec editor are converted once typing pauses this long
+const EDIT_DEBOUNCE_MS = 500;
+
+// File name of a spec pasted into the editor rather than uploaded
+const PASTED_FILE_NAME = 'pasted-spec';
 
 const App: React.FC = () => {
   const [state, setState] = useState<ConversionState>({
     isLoading: false,
     error: null,
     result: null,
-    fileName: null
+    files: null,
+    diagnostics: [],
+    tokens: null,
+    operations: [],
+    servers: [],
+    fileName: null,
+    specFormat: null
   });
+  const [options, setOptions] = useState<ConversionOptions>({ outputMode: 'single', snippetLanguages: ['curl'], filter: loadSavedFilter(), templates: loadSavedTemplates() });
+  const [activeFile, setActiveFile] = useState(0);
+  const [mode, setMode] = useState<AppMode>('convert');
+  const [changelogNames, setChangelogNames] = useState<Record<ChangelogSide, string | null>>({ previous: null, current: null });
+  const [llmConfig, setLlmConfig] = useState<LlmProviderConfig>({ provider: 'gemini' });
+  const [enhanceProgress, setEnhanceProgress] = useState<EnhanceProgress | null>(null);
+  const [enhanceResult, setEnhanceResult] = useState<EnhanceResult | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  const [progress, setProgress] = useState<ConversionProgress | null>(null);
+  const [source, setSource] = useState('');
+  const [inputVersion, setInputVersion] = useState(0);
+  const [sourceTarget, setSourceTarget] = useState<SourceTarget | null>(null);
+  const [outputView, setOutputView] = useState<OutputView>('raw');
+  const [dragging, setDragging] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<SpecInput | null>(null);
+  const changelogInputsRef = useRef<Partial<Record<ChangelogSide, SpecInput>>>({});
+  const enhanceAbortRef = useRef<AbortController | null>(null);
+  const conversionRef = useRef<ConversionJob | null>(null);
+  const editTimerRef = useRef<number | undefined>(undefined);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    setState(prev => ({ ...prev, isLoading: true, error: null, fileName: file.name }));
-
-    // Small timeout to allow UI to show loading state for very large files
-    setTimeout(() => {
-      try {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const content = e.target?.result as string;
-          try {
-            // Validate JSON
-            JSON.parse(content);
-            
-            // Perform high-performance local conversion
-            const markdown = localConvertToLlmTxt(content);
-            
-            setState(prev => ({ ...prev, result: markdown, isLoading: false }));
-          } catch (err: any) {
-            setState(prev => ({ 
-              ...prev, 
-              error: err.message || "The uploaded file is not a valid JSON OpenAPI specification.", 
-              isLoading: false 
-            }));
-          }
-        };
-        reader.onerror = () => {
-          setState(prev => ({ ...prev, error: "Failed to read file.", isLoading: false }));
-        };
-        reader.readAsText(file);
-      } catch (err) {
-        setState(prev => ({ ...prev, error: "An unexpected error occurred.", isLoading: false }));
+  // A new conversion replaces the output, so any enhancement of the old one is dropped
+  const discardEnhancement = useCallback(() => {
+    enhanceAbortRef.current?.abort();
+    enhanceAbortRef.current = null;
+    setEnhanceProgress(null);
+    setEnhanceResult(null);
+    setShowChanges(false);
+  }, []);
+
+  // Stops the conversion in progress, if any; its result is never applied
+  const cancelConversion = useCallback(() => {
+    conversionRef.current?.cancel();
+    conversionRef.current = null;
+    setProgress(null);
+    setState(prev => ({ ...prev, isLoading: false }));
+  }, []);
+
+  const runConversion = useCallback(async (input: SpecInput, conversionOptions: ConversionOptions) => {
+    discardEnhancement();
+    conversionRef.current?.cancel();
+    // Runs in a worker; an option change while it runs cancels it and starts over
+    const fullOptions = { ...conversionOptions, fileName: input.fileName, externalFiles: input.externalFiles, sourceMap: true };
+    const job = convertInWorker({ content: input.content, options: fullOptions }, setProgress);
+    conversionRef.current = job;
+    setProgress(null);
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const { result: { files, diagnostics, tokens }, operations, servers } = await job.promise;
+      if (conversionRef.current !== job) return;
+      setActiveFile(0);
+      setState(prev => ({ ...prev, result: files[0].content, files, diagnostics, tokens, operations, servers, error: null, isLoading: false }));
+    } catch (err: any) {
+      if (conversionRef.current !== job) return;
+      setState(prev => ({ 
+        ...prev, 
+        result: null,
+        files: null,
+        diagnostics: [],
+        tokens: null,
+        operations: [],
+        servers: [],
+        error: err.message || "The uploaded file is not a valid JSON or YAML OpenAPI specification.", 
+        isLoading: false 
+      }));
+    } finally {
+      if (conversionRef.current === job) {
+        conversionRef.current = null;
+        setProgress(null);
       }
-    }, 100);
+    }
+  }, [discardEnhancement]);
+
+  // Re-run the conversion on the current upload whenever an output option changes or the spec is edited
+  useEffect(() => {
+    if (inputRef.current) runConversion(inputRef.current, options);
+  }, [options, inputVersion, runConversion]);
+
+  // Remember the operation filter so it is reapplied to the next version of the spec
+  useEffect(() => {
+    try {
+      localStorage.setItem(FILTER_STORAGE_KEY, JSON.stringify(options.filter || {}));
+    } catch {
+      // Storage can be unavailable (private mode, quota); the filter then lasts for this session only
+    }
+  }, [options.filter]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(options.templates || {}));
+    } catch {
+      // As above, the templates then last for this session only
+    }
+  }, [options.templates]);
+
+  const loadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    window.clearTimeout(editTimerRef.current);
+    setState(prev => ({ ...prev, isLoading: true, error: null, fileName: files.map(f => f.name).join(', '), specFormat: null }));
+    try {
+      inputRef.current = await readSpecInput(files);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message || "Failed to read file.", isLoading: false }));
+      return;
+    }
+    // Conversion picks the matching input adapter by itself; this only tells the user which one
+    const specFormat = describeSpecFormat(inputRef.current.content) || null;
+    setState(prev => ({ ...prev, specFormat }));
+    setSource(inputRef.current.content);
+    setSourceTarget(null);
+    runConversion(inputRef.current, options);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => loadFiles(Array.from(event.target.files || []));
+
+  // Changelog mode leaves drops to its own file inputs
+  const handleDrop = (event: React.DragEvent) => {
+    if (mode !== 'convert') return;
+    event.preventDefault();
+    setDragging(false);
+    loadFiles(Array.from(event.dataTransfer.files));
+  };
+
+  // The editor holds the root file; files it references stay as uploaded
+  const handleSourceEdit = (content: string) => {
+    setSource(content);
+    window.clearTimeout(editTimerRef.current);
+    // Rejected before it becomes the input, so changing an option cannot convert it either
+    if (content.length > MAX_SPEC_SIZE_MB * 1024 * 1024) {
+      setState(prev => ({ ...prev, error: `The spec is over the ${MAX_SPEC_SIZE_MB} MB limit.` }));
+      return;
+    }
+    inputRef.current = { fileName: PASTED_FILE_NAME, externalFiles: {}, ...inputRef.current, content };
+    editTimerRef.current = window.setTimeout(() => {
+      setState(prev => ({ ...prev, fileName: prev.fileName || 'Pasted spec', specFormat: describeSpecFormat(content) || null }));
+      setInputVersion(version => version + 1);
+    }, EDIT_DEBOUNCE_MS);
+  };
+
+  // Selects the spec lines an output line was generated from
+  const handleShowSource = useCallback((line: number) => {
+    const pointer = pointerAtLine(state.files?.[activeFile]?.sourceMap, line);
+    if (pointer === undefined || !inputRef.current) return;
+    const location = locatePointer(inputRef.current.content, pointer);
+    if (location) setSourceTarget({ pointer, ...location });
+  }, [state.files, activeFile]);
+
+  const handleOpenFile = useCallback((path: string) => {
+    const index = state.files?.findIndex(file => file.path === path) ?? -1;
+    if (index >= 0) setActiveFile(index);
+  }, [state.files]);
+
+  const handleChangelogUpload = async (side: ChangelogSide, files: File[]) => {
+    setChangelogNames(prev => ({ ...prev, [side]: files.map(f => f.name).join(', ') }));
+    try {
+      changelogInputsRef.current[side] = await readSpecInput(files);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message || "Failed to read file." }));
+      return;
+    }
+
+    const { previous, current } = changelogInputsRef.current;
+    if (!previous || !current) return;
+    try {
+      const content = localConvertToChangelog(
+        previous.content,
+        current.content,
+        { fileName: previous.fileName, externalFiles: previous.externalFiles },
+        { fileName: current.fileName, externalFiles: current.externalFiles }
+      );
+      setActiveFile(0);
+      setState(prev => ({ ...prev, result: content, files: [{ path: 'CHANGELOG.md', content }], diagnostics: [], tokens: null, operations: [], servers: [], error: null }));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, result: null, files: null, diagnostics: [], tokens: null, error: err.message || "Could not compare the two specifications." }));
+    }
+  };
+
+  const handleEnhance = async () => {
+    const original = state.files;
+    if (!original) return;
+    const controller = new AbortController();
+    enhanceAbortRef.current = controller;
+    // False once a new conversion has discarded this run
+    const isCurrent = () => enhanceAbortRef.current === controller;
+    setEnhanceResult(null);
+    setShowChanges(false);
+    setEnhanceProgress({ files: original, done: 0, total: 0, operation: '' });
+    try {
+      // Streamed: the result pane follows the model section by section
+      const result = await enhanceFiles(original, llmConfig, progress => {
+        if (!isCurrent()) return;
+        setEnhanceProgress(progress);
+        setState(prev => ({ ...prev, files: progress.files, result: progress.files[0].content }));
+      }, controller.signal);
+      if (!isCurrent()) return;
+      setEnhanceResult(result);
+      setState(prev => ({ ...prev, files: result.files, result: result.files[0].content, error: null }));
+    } catch (err: any) {
+      if (!isCurrent()) return;
+      setState(prev => ({ ...prev, files: original, result: original[0].content, error: err.message || "The AI provider could not be reached." }));
+    } finally {
+      if (isCurrent()) {
+        enhanceAbortRef.current = null;
+        setEnhanceProgress(null);
+      }
+    }
   };
 
   const handleCopy = useCallback(() => {
-    if (state.result) {
-      navigator.clipboard.writeText(state.result);
+    const content = state.files?.[activeFile]?.content ?? state.result;
+    if (content) {
+      navigator.clipboard.writeText(content);
       alert("Copied to clipboard!");
     }
-  }, [state.result]);
+  }, [state.files, state.result, activeFile]);
 
   const handleDownload = useCallback(() => {
-    if (state.result) {
-      const blob = new Blob([state.result], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'llm.txt';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+    if (state.files && state.files.length > 1) {
+      // Split output: bundle the llms.txt index and the per-tag files into one zip
+      const zipped = zipSync(Object.fromEntries(state.files.map(f => [f.path, strToU8(f.content)])));
+      downloadBlob(new Blob([zipped], { type: 'application/zip' }), 'llms.zip');
+    } else if (state.result) {
+      const path = state.files?.[0]?.path || 'llm.txt';
+      downloadBlob(new Blob([state.result], { type: path.endsWith('.json') ? 'application/json' : 'text/markdown' }), path);
     }
-  }, [state.result]);
+  }, [state.files, state.result]);
+
+  const handleExportFilter = useCallback(() => {
+    downloadBlob(new Blob([JSON.stringify(options.filter || {}, null, 2)], { type: 'application/json' }), 'llmtxt-filter.json');
+  }, [options.filter]);
+
+  // Every slot is exported, defaults included, so the file is a complete starting point
+  const handleExportTemplates = useCallback(() => {
+    const templates = { ...DEFAULT_TEMPLATES, ...options.templates };
+    downloadBlob(new Blob([JSON.stringify(templates, null, 2)], { type: 'application/json' }), 'llmtxt-templates.json');
+  }, [options.templates]);
 
   const reset = () => {
+    discardEnhancement();
+    cancelConversion();
     setState({
       isLoading: false,
       error: null,
       result: null,
-      fileName: null
+      files: null,
+      diagnostics: [],
+      tokens: null,
+      operations: [],
+      servers: [],
+      fileName: null,
+      specFormat: null
     });
+    inputRef.current = null;
+    window.clearTimeout(editTimerRef.current);
+    setSource('');
+    setSourceTarget(null);
+    changelogInputsRef.current = {};
+    setChangelogNames({ previous: null, current: null });
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const activePath = state.files?.[activeFile]?.path || 'llm.txt';
+
+  const switchMode = (next: AppMode) => {
+    if (next === mode) return;
+    reset();
+    setMode(next);
+  };
+
   return (
     <div className="flex flex-col min-h-screen">
       <Header />
@@ -91,35 +331,79 @@ const App: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start mt-8">
           
           {/* Left Column: Input */}
-          <section className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 lg:p-8 h-full min-h-[400px] flex flex-col">
+          <section
+            onDragOver={event => { if (mode !== 'convert') return; event.preventDefault(); setDragging(true); }}
+            onDragLeave={event => { if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setDragging(false); }}
+            onDrop={handleDrop}
+            className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 lg:p-8 h-full min-h-[400px] flex flex-col"
+          >
             <h2 className="text-xl font-bold mb-4 flex items-center gap-2 text-slate-900">
               <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-blue-600"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" x2="12" y1="3" y2="15"/></svg>
               Upload Specification
             </h2>
-            
-            <p className="text-slate-500 mb-6 text-sm">
-              Upload your OpenAPI 3.0 or Swagger 2.0 JSON file. 
-              The local engine will parse endpoints, parameters, and schemas instantly.
-            </p>
-
-            <div className="flex-1 flex flex-col justify-center border-2 border-dashed border-slate-200 rounded-xl bg-slate-50 hover:bg-slate-100 transition-all p-10 text-center relative group">
-              <input 
-                type="file" 
-                accept=".json"
-                ref={fileInputRef}
-                onChange={handleFileUpload}
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              />
-              <div className="flex flex-col items-center">
-                <div className="w-16 h-16 bg-white rounded-full shadow-sm flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
-                   <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-blue-500"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><line x1="12" y1="18" x2="12" y2="12"/><line x1="9" y1="15" x2="15" y2="15"/></svg>
+
+            <div className="flex gap-1 p-1 mb-4 bg-slate-100 rounded-lg text-sm font-medium self-start">
+              {([['convert', 'Convert'], ['changelog', 'Changelog']] as [AppMode, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => switchMode(value)}
+                  className={`px-3 py-1 rounded-md transition-colors ${mode === value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'convert' ? (
+              <p className="text-slate-500 mb-6 text-sm">
+                Upload an OpenAPI 3.x, Swagger 2.0, AsyncAPI 2.x/3.x, Postman collection or JSON Schema file in JSON or YAML format.
+                Select the files it references too and relative <code>$ref</code>s will be resolved.
+                The local engine will parse endpoints, parameters, and schemas instantly.
+              </p>
+            ) : (
+              <p className="text-slate-500 mb-6 text-sm">
+                Upload two versions of the same spec to get a Markdown changelog of added, removed and
+                changed endpoints, parameters and fields, each flagged as breaking or non-breaking.
+              </p>
+            )}
+
+            {mode === 'changelog' && (
+              <ChangelogUpload fileNames={changelogNames} onSelect={handleChangelogUpload} />
+            )}
+
+            {mode === 'convert' && (
+              <div className={`flex-1 flex flex-col justify-center border-2 border-dashed rounded-xl transition-all p-10 text-center relative group ${dragging ? 'border-blue-400 bg-blue-50' : 'border-slate-200 bg-slate-50 hover:bg-slate-100'}`}>
+                <input 
+                  type="file" 
+                  accept=".json,.yaml,.yml"
+                  multiple
+                  ref={fileInputRef}
+                  onChange={handleFileUpload}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                />
+                <div className="flex flex-col items-center">
+                  <div className="w-16 h-16 bg-white rounded-full shadow-sm flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                     <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-blue-500"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><line x1="12" y1="18" x2="12" y2="12"/><line x1="9" y1="15" x2="15" y2="15"/></svg>
+                  </div>
+                  <span className="text-sm font-semibold text-slate-700">
+                    {dragging ? "Drop to convert" : state.fileName ? state.fileName : "Click to select or drop JSON or YAML files"}
+                  </span>
+                  {state.specFormat && (
+                    <span className="text-xs font-medium text-blue-600 mt-1">Detected: {state.specFormat}</span>
+                  )}
+                  <span className="text-xs text-slate-400 mt-1">Maximum size: {MAX_SPEC_SIZE_MB} MB</span>
                 </div>
-                <span className="text-sm font-semibold text-slate-700">
-                  {state.fileName ? state.fileName : "Click to select a JSON file"}
-                </span>
-                <span className="text-xs text-slate-400 mt-1">Maximum file size: 5MB</span>
               </div>
-            </div>
+            )}
+
+            {mode === 'convert' && (
+              <SpecEditor
+                value={source}
+                fileName={inputRef.current && inputRef.current.fileName !== PASTED_FILE_NAME ? inputRef.current.fileName : null}
+                onChange={handleSourceEdit}
+                target={sourceTarget}
+              />
+            )}
 
             {state.error && (
               <div className="mt-4 p-4 bg-red-50 border border-red-100 text-red-600 rounded-lg text-sm flex items-start gap-3">
@@ -131,10 +415,55 @@ const App: React.FC = () => {
             {state.isLoading && (
               <div className="mt-6 flex flex-col items-center gap-3">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                <p className="text-sm text-slate-600 font-medium">Processing schema...</p>
+                <p className="text-sm text-slate-600 font-medium">
+                  {progress && progress.total > 0 ? `Processing schema... ${progress.done} of ${progress.total} operations` : 'Processing schema...'}
+                </p>
+                {conversionRef.current && (
+                  <button onClick={cancelConversion} className="px-3 py-1 border border-slate-200 rounded-md text-sm text-slate-600 hover:bg-slate-50">
+                    Cancel
+                  </button>
+                )}
               </div>
             )}
             
+            <DiagnosticsPanel diagnostics={state.diagnostics} />
+
+            <TokenPanel tokens={state.tokens} activePath={state.files?.[activeFile]?.path} />
+
+            {mode === 'convert' && (
+              <OperationFilterPanel
+                operations={state.operations}
+                filter={options.filter || {}}
+                onChange={filter => setOptions(prev => ({ ...prev, filter }))}
+                onExport={handleExportFilter}
+              />
+            )}
+
+            {mode === 'convert' && state.files && (
+              <EnvironmentPicker servers={state.servers} options={options} onChange={setOptions} />
+            )}
+
+            {mode === 'convert' && <OutputOptions options={options} onChange={setOptions} />}
+
+            {mode === 'convert' && (!options.format || options.format === 'llm-txt') && (
+              <TemplateEditor
+                templates={options.templates || {}}
+                onChange={templates => setOptions(prev => ({ ...prev, templates: Object.keys(templates).length > 0 ? templates : undefined }))}
+                onExport={handleExportTemplates}
+              />
+            )}
+
+            {mode === 'convert' && (!options.format || options.format === 'llm-txt') && (
+              <EnhancePanel
+                config={llmConfig}
+                onConfigChange={setLlmConfig}
+                progress={enhanceProgress}
+                disabled={!state.files}
+                onStart={handleEnhance}
+                onCancel={() => enhanceAbortRef.current?.abort()}
+              />
+            )}
+
             {state.result && (
               <button 
                 onClick={reset}
@@ -149,9 +478,35 @@ const App: React.FC = () => {
           <section className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full min-h-[600px]">
             <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between bg-slate-50/50">
               <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider">
-                Conversion Result (llm.txt)
+                Conversion Result ({state.files && state.files.length > 1 ? 'llms.txt' : state.files?.[0]?.path || 'llm.txt'})
               </h2>
               <div className="flex gap-2">
+                {state.result && !showChanges && !activePath.endsWith('.json') && (
+                  <div className="flex gap-1 p-1 bg-slate-100 rounded-lg text-xs font-medium">
+                    {([['raw', 'Raw'], ['rendered', 'Rendered']] as [OutputView, string][]).map(([value, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => setOutputView(value)}
+                        className={`px-2 py-1 rounded-md transition-colors ${outputView === value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {enhanceResult && (
+                  <div className="flex gap-1 p-1 bg-slate-100 rounded-lg text-xs font-medium">
+                    {([[false, 'Output'], [true, `AI changes (${enhanceResult.changes.length})`]] as [boolean, string][]).map(([value, label]) => (
+                      <button
+                        key={label}
+                        onClick={() => setShowChanges(value)}
+                        className={`px-2 py-1 rounded-md transition-colors ${showChanges === value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <button 
                   disabled={!state.result}
                   onClick={handleCopy}
@@ -164,7 +519,7 @@ const App: React.FC = () => {
                   disabled={!state.result}
                   onClick={handleDownload}
                   className="p-2 hover:bg-white rounded-lg border border-transparent hover:border-slate-200 text-slate-600 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
-                  title="Download as llm.txt"
+                  title={state.files && state.files.length > 1 ? "Download all files as zip" : `Download as ${state.files?.[0]?.path || 'llm.txt'}`}
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
                 </button>
@@ -181,16 +536,43 @@ const App: React.FC = () => {
               {state.isLoading && (
                 <div className="absolute inset-0 flex items-center justify-center bg-slate-900/50 backdrop-blur-[1px] z-10">
                    <div className="w-1/2 h-2 bg-slate-800 rounded-full overflow-hidden">
-                      <div className="h-full bg-blue-500 animate-[loading_2s_ease-in-out_infinite]"></div>
+                      {progress && progress.total > 0 ? (
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+                      ) : (
+                        <div className="h-full bg-blue-500 animate-[loading_2s_ease-in-out_infinite]"></div>
+                      )}
                    </div>
                 </div>
               )}
 
-              {state.result && (
-                <pre className="p-6 code-font text-sm leading-relaxed whitespace-pre-wrap">
-                  {state.result}
-                </pre>
+              {showChanges && enhanceResult && (
+                <EnhanceDiff result={enhanceResult} showPaths={enhanceResult.files.length > 1} />
               )}
+
+              {!showChanges && state.files && state.files.length > 1 && (
+                <div className="sticky top-0 flex gap-1 overflow-x-auto px-4 pt-3 bg-slate-900 border-b border-slate-800">
+                  {state.files.map((file, index) => (
+                    <button
+                      key={file.path}
+                      onClick={() => setActiveFile(index)}
+                      className={`px-3 py-1.5 text-xs code-font rounded-t-md whitespace-nowrap ${index === activeFile ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      {file.path}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {!showChanges && state.result && (outputView === 'rendered' && !activePath.endsWith('.json') ? (
+                <MarkdownView
+                  text={state.files?.[activeFile]?.content ?? state.result}
+                  sourceMap={state.files?.[activeFile]?.sourceMap}
+                  onShowSource={handleShowSource}
+                  onOpenFile={handleOpenFile}
+                />
+              ) : (
+                <OutputViewer text={state.files?.[activeFile]?.content ?? state.result} onLineClick={handleShowSource} />
+              ))}
             </div>
           </section>
 
@@ -198,7 +580,7 @@ const App: React.FC = () => {
       </main>
 
       <footer className="py-6 text-center text-slate-400 text-xs border-t border-slate-100 bg-white">
-        Built with high-performance local parsing. No data is sent to external servers.
+        Conversion runs locally in your browser. AI Enhance sends the generated sections to the provider you choose.
         <style>
           {`
             @keyframes loading {
@@ -212,4 +594,65 @@ const App: React.FC = () => {
   );
 };
 
+/**
+ * Reads an upload into a SpecInput. The root spec is the file declaring an OpenAPI, Swagger or
+ * AsyncAPI version (or a Postman collection); the rest are $ref targets.
+ */
+const readSpecInput = async (files: File[]): Promise<SpecInput> => {
+  // Checked before reading: parsing a spec takes several times its size in memory
+  const size = files.reduce((sum, file) => sum + file.size, 0);
+  if (size > MAX_SPEC_SIZE_MB * 1024 * 1024) {
+    throw new Error(`The selected files are ${(size / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_SPEC_SIZE_MB} MB.`);
+  }
+  const uploaded = await Promise.all(files.map(async file => ({
+    path: file.webkitRelativePath || file.name,
+    content: await readFileAsText(file)
+  })));
+  const rootIndex = Math.max(0, uploaded.findIndex(f => isRootSpecContent(f.content)));
+  const root = uploaded[rootIndex];
+  return {
+    content: root.content,
+    fileName: root.path,
+    externalFiles: Object.fromEntries(
+      uploaded.filter((_, i) => i !== rootIndex).map(f => [f.path, f.content])
+    )
+  };
+};
+
+const loadSavedFilter = (): OperationFilter | undefined => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FILTER_STORAGE_KEY) || '{}');
+    return saved && typeof saved === 'object' && Object.keys(saved).length > 0 ? saved : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const loadSavedTemplates = (): OutputTemplates | undefined => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) || '{}');
+    return saved && typeof saved === 'object' && Object.keys(saved).length > 0 ? saved : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const readFileAsText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (e) => resolve(e.target?.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 export default App;
@@ -0,0 +1,345 @@
+#!/usr/bin/env node
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { convertSpecFiles, diffSpecFiles, localConvert, localConvertToChangelog } from './lib';
+import { DEFAULT_EXAMPLE_SEED } from './services/exampleGenerator';
+import { getSnippetGenerators } from './services/snippetService';
+import { MESSAGE_ACTIONS, OPERATION_METHODS } from './services/operationService';
+import { getOutputRenderers } from './services/outputRenderers';
+import { DEFAULT_SHARED_SCHEMA_MIN_FIELDS, DEFAULT_SHARED_SCHEMA_MIN_USES } from './services/schemaUsageService';
+import { parseTemplates } from './services/templateService';
+import { ConversionResult, OperationFilter, OutputFormat, OutputMode, OutputTemplates, SnippetLanguage } from './types';
+
+/**
+ * Exit codes: 0 success, 1 `--check` found stale output, 2 invalid usage,
+ * 3 the input could not be read or converted (or, with `--strict`, has error diagnostics).
+ */
+const EXIT_STALE = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILURE = 3;
+
+const OUTPUT_MODES: OutputMode[] = ['single', 'grouped', 'split'];
+
+const OUTPUT_FORMATS: OutputFormat[] = ['llm-txt', ...getOutputRenderers().map(r => r.id)];
+
+const HELP = `Usage: jsonschema-2-llmtxt [options] [spec] [referenced files...]
+
+Converts an OpenAPI 3.x, Swagger 2.0 or AsyncAPI spec, a Postman collection or a plain JSON Schema
+(JSON or YAML) to llm.txt.
+Reads the spec from stdin when no file (or "-") is given. Extra files are
+made available to relative $refs in the root spec.
+
+Options:
+  -o, --output <path>      Write to a file instead of stdout (a directory in split mode)
+  -m, --mode <mode>        Output layout: ${OUTPUT_MODES.join(', ')} (default: single)
+  -f, --format <format>    Output format: ${OUTPUT_FORMATS.join(', ')} (default: llm-txt)
+  -s, --snippets <list>    Comma-separated usage snippet languages (default: curl)
+                           Available: ${getSnippetGenerators().map(g => g.id).join(', ')}
+  -d, --max-depth <n>      Maximum nesting of schema fields to render
+  -b, --budget <tokens>    Compact the output until each file fits this many (estimated) tokens
+      --shared-schemas     Describe widely used component schemas once and link to them
+      --min-uses <n>       Operations that must use a schema to share it (default: ${DEFAULT_SHARED_SCHEMA_MIN_USES})
+      --min-fields <n>     Fields a schema needs to be shared (default: ${DEFAULT_SHARED_SCHEMA_MIN_FIELDS})
+      --seed <n>           Seed for generated example values (default: ${DEFAULT_EXAMPLE_SEED})
+      --server <n|url>     Server usage snippets call: a 0-based index into the spec's servers,
+                           or a base URL to use instead (default: the first server)
+      --server-var <name=value>
+                           Value for a server URL variable (one of its enum values, if it has any);
+                           repeat for several
+      --templates <path>   Read llm.txt layout templates (JSON, as exported from the web app)
+      --tag <list>         Only convert operations with one of these tags (comma-separated)
+      --exclude-tag <list> Skip operations with any of these tags
+      --path <globs>       Only convert paths matching a glob, e.g. /v2/billing/** (* stays within a segment)
+      --exclude-path <globs>
+                           Skip paths matching any of these globs
+      --method <list>      Only convert these HTTP methods (or publish, subscribe)
+      --exclude-deprecated Skip deprecated operations
+      --exclude-extension <list>
+                           Skip operations (or paths) with a truthy vendor extension, e.g. x-internal
+      --filter <path>      Read a filter saved from the web app; the flags above add to it
+      --changelog <path>   Output a changelog from this previous version of the spec instead
+  -c, --check              Exit with ${EXIT_STALE} if --output is not up to date instead of writing it; in split
+                           mode, Markdown and text files the spec no longer generates count as stale
+  -q, --quiet              Do not print spec diagnostics to stderr
+      --strict             Exit with ${EXIT_FAILURE} when the spec has error diagnostics (the output is still written)
+  -h, --help               Show this help
+`;
+
+class UsageError extends Error {}
+
+const main = async (argv: string[]): Promise<number> => {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        mode: { type: 'string', short: 'm', default: 'single' },
+        format: { type: 'string', short: 'f', default: 'llm-txt' },
+        snippets: { type: 'string', short: 's' },
+        'max-depth': { type: 'string', short: 'd' },
+        budget: { type: 'string', short: 'b' },
+        'shared-schemas': { type: 'boolean', default: false },
+        'min-uses': { type: 'string' },
+        'min-fields': { type: 'string' },
+        seed: { type: 'string' },
+        server: { type: 'string' },
+        'server-var': { type: 'string', multiple: true },
+        templates: { type: 'string' },
+        tag: { type: 'string' },
+        'exclude-tag': { type: 'string' },
+        path: { type: 'string' },
+        'exclude-path': { type: 'string' },
+        method: { type: 'string' },
+        'exclude-deprecated': { type: 'boolean', default: false },
+        'exclude-extension': { type: 'string' },
+        filter: { type: 'string' },
+        changelog: { type: 'string' },
+        check: { type: 'boolean', short: 'c', default: false },
+        quiet: { type: 'boolean', short: 'q', default: false },
+        strict: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (e: any) {
+    return fail(new UsageError(e.message));
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    process.stdout.write(HELP);
+    return 0;
+  }
+
+  try {
+    const options = {
+      outputMode: parseMode(values.mode as string),
+      format: parseFormat(values.format as string),
+      snippetLanguages: values.snippets ? parseSnippets(values.snippets as string) : undefined,
+      maxSchemaDepth: values['max-depth'] !== undefined ? parseDepth(values['max-depth'] as string) : undefined,
+      exampleSeed: values.seed !== undefined ? parseSeed(values.seed as string) : undefined,
+      tokenBudget: values.budget !== undefined ? parseBudget(values.budget as string) : undefined,
+      sharedSchemas: values['shared-schemas'] as boolean,
+      sharedSchemaMinUses: values['min-uses'] !== undefined ? parseThreshold('--min-uses', values['min-uses'] as string) : undefined,
+      sharedSchemaMinFields: values['min-fields'] !== undefined ? parseThreshold('--min-fields', values['min-fields'] as string) : undefined,
+      filter: await buildFilter(values),
+      ...(values.server !== undefined ? parseServer(values.server as string) : {}),
+      serverVariables: values['server-var'] ? parseServerVariables(values['server-var'] as string[]) : undefined,
+      templates: values.templates ? await readTemplates(values.templates as string) : undefined,
+    };
+    const output = values.output as string | undefined;
+    if (values.check && !output) throw new UsageError('--check requires --output');
+    const split = options.outputMode === 'split' && options.format === 'llm-txt' && !values.changelog;
+    if (split && !output) throw new UsageError('--mode split requires --output <directory>');
+
+    const [root, ...extra] = positionals;
+    let result: ConversionResult;
+    try {
+      result = values.changelog
+        ? await changelogResult(values.changelog as string, root, extra)
+        : !root || root === '-'
+          ? localConvert(await readStdin(), options)
+          : await convertSpecFiles(root, extra, options);
+    } catch (e: any) {
+      throw new Error(`Conversion failed: ${e.message}`);
+    }
+
+    const { files, diagnostics, tokens } = result;
+    // A server the spec does not declare is a mistake in the command, not in the spec
+    const serverError = diagnostics.find(d => d.code === 'server-index-out-of-range' || d.code === 'server-variable-not-in-enum');
+    if (serverError) throw new UsageError(`${serverError.code === 'server-index-out-of-range' ? '--server' : '--server-var'}: ${serverError.message}`);
+    if (!values.quiet) {
+      diagnostics.forEach(d => process.stderr.write(`${d.severity}: ${d.message} (#${d.pointer})\n`));
+      tokens.compaction.forEach(entry => process.stderr.write(`compacted: ${entry.message}\n`));
+      if (tokens.overBudget) {
+        const largest = Math.max(...tokens.files.map(f => f.tokens));
+        process.stderr.write(`warning: output is still ~${largest} tokens after all compaction steps (budget ${tokens.budget})\n`);
+      }
+    }
+
+    const errors = diagnostics.filter(d => d.severity === 'error').length;
+    const succeeded = () => {
+      if (!values.strict || errors === 0) return 0;
+      process.stderr.write(`jsonschema-2-llmtxt: the spec has ${errors} error diagnostic${errors === 1 ? '' : 's'} (--strict)\n`);
+      return EXIT_FAILURE;
+    };
+
+    if (!output) {
+      process.stdout.write(files[0].content + '\n');
+      return succeeded();
+    }
+
+    const targets = files.map(file => ({
+      target: split ? path.join(output, file.path) : output,
+      content: file.content + '\n',
+    }));
+
+    if (values.check) {
+      const stale: string[] = [];
+      for (const { target, content } of targets) {
+        const existing = await readFile(target, 'utf8').catch(() => null);
+        if (existing !== content) stale.push(target);
+      }
+      // Files of removed tags or operations would otherwise go unnoticed
+      const expected = new Set(targets.map(({ target }) => path.resolve(target)));
+      const extra = split ? (await listSplitFiles(output)).filter(file => !expected.has(path.resolve(file))) : [];
+      if (stale.length > 0) process.stderr.write(`Out of date: ${stale.join(', ')}\nRe-run without --check to regenerate.\n`);
+      if (extra.length > 0) process.stderr.write(`No longer generated: ${extra.join(', ')}\nDelete these files.\n`);
+      if (stale.length > 0 || extra.length > 0) return EXIT_STALE;
+      return succeeded();
+    }
+
+    for (const { target, content } of targets) {
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, content, 'utf8');
+    }
+    return succeeded();
+  } catch (e: any) {
+    return fail(e);
+  }
+};
+
+// The Markdown and text files under a split output directory, as written there by earlier runs
+async function listSplitFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const nested = await Promise.all(entries.map(async entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listSplitFiles(file);
+    return /\.(md|txt)$/.test(entry.name) ? [file] : [];
+  }));
+  return nested.flat();
+}
+
+// Changelogs are a single file and carry no diagnostics
+async function changelogResult(previous: string, root: string | undefined, extra: string[]): Promise<ConversionResult> {
+  const content = !root || root === '-'
+    ? localConvertToChangelog(await readFile(previous, 'utf8'), await readStdin(), { fileName: previous })
+    : await diffSpecFiles(previous, root, extra);
+  return { files: [{ path: 'CHANGELOG.md', content }], diagnostics: [], tokens: { files: [], compaction: [], overBudget: false } };
+}
+
+function fail(error: Error): number {
+  process.stderr.write(`jsonschema-2-llmtxt: ${error.message}\n`);
+  if (error instanceof UsageError) {
+    process.stderr.write('Run with --help for usage.\n');
+    return EXIT_USAGE;
+  }
+  return EXIT_FAILURE;
+}
+
+function parseMode(value: string): OutputMode {
+  if (!OUTPUT_MODES.includes(value as OutputMode)) {
+    throw new UsageError(`Unknown mode "${value}". Expected one of: ${OUTPUT_MODES.join(', ')}`);
+  }
+  return value as OutputMode;
+}
+
+function parseFormat(value: string): OutputFormat {
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new UsageError(`Unknown format "${value}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return value as OutputFormat;
+}
+
+function parseSnippets(value: string): SnippetLanguage[] {
+  const known = getSnippetGenerators().map(g => g.id);
+  const languages = value.split(',').map(l => l.trim()).filter(Boolean);
+  const unknown = languages.filter(l => !known.includes(l as SnippetLanguage));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown snippet language(s): ${unknown.join(', ')}. Available: ${known.join(', ')}`);
+  }
+  return languages as SnippetLanguage[];
+}
+
+function parseDepth(value: string): number {
+  const depth = Number(value);
+  if (!Number.isInteger(depth) || depth < 0) throw new UsageError(`--max-depth must be a non-negative integer, got "${value}"`);
+  return depth;
+}
+
+function parseBudget(value: string): number {
+  const budget = Number(value);
+  if (!Number.isInteger(budget) || budget <= 0) throw new UsageError(`--budget must be a positive integer, got "${value}"`);
+  return budget;
+}
+
+/**
+ * Combines the saved `--filter` file with the filter flags; list flags are appended to its lists.
+ */
+async function buildFilter(values: Record<string, string | boolean | undefined>): Promise<OperationFilter | undefined> {
+  let filter: OperationFilter = {};
+  if (values.filter) {
+    const content = await readFile(values.filter as string, 'utf8');
+    try {
+      filter = JSON.parse(content);
+    } catch (e: any) {
+      throw new UsageError(`--filter ${values.filter} is not valid JSON: ${e.message}`);
+    }
+  }
+  const add = (key: 'includeTags' | 'excludeTags' | 'includePaths' | 'excludePaths' | 'methods' | 'excludeExtensions', flag: string) => {
+    if (typeof values[flag] !== 'string') return;
+    filter[key] = [...(filter[key] || []), ...(values[flag] as string).split(',').map(item => item.trim()).filter(Boolean)];
+  };
+  add('includeTags', 'tag');
+  add('excludeTags', 'exclude-tag');
+  add('includePaths', 'path');
+  add('excludePaths', 'exclude-path');
+  add('methods', 'method');
+  add('excludeExtensions', 'exclude-extension');
+  if (values['exclude-deprecated']) filter.excludeDeprecated = true;
+
+  if (filter.methods) {
+    filter.methods = filter.methods.map(method => method.toLowerCase());
+    const unknown = filter.methods.filter(method => !OPERATION_METHODS.includes(method));
+    if (unknown.length > 0) throw new UsageError(`Unknown method(s): ${unknown.join(', ')}. Expected HTTP methods or ${MESSAGE_ACTIONS.join(', ')}`);
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+function parseThreshold(flag: string, value: string): number {
+  const threshold = Number(value);
+  if (!Number.isInteger(threshold) || threshold < 0) throw new UsageError(`${flag} must be a non-negative integer, got "${value}"`);
+  return threshold;
+}
+
+function parseSeed(value: string): number {
+  const seed = Number(value);
+  if (!Number.isInteger(seed)) throw new UsageError(`--seed must be an integer, got "${value}"`);
+  return seed;
+}
+
+function parseServer(value: string): { serverIndex?: number; serverUrl?: string } {
+  if (/^\d+$/.test(value)) return { serverIndex: Number(value) };
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(value)) throw new UsageError(`--server must be a server index or an absolute URL, got "${value}"`);
+  return { serverUrl: value };
+}
+
+function parseServerVariables(values: string[]): Record<string, string> {
+  return Object.fromEntries(values.map(entry => {
+    const at = entry.indexOf('=');
+    if (at <= 0) throw new UsageError(`--server-var must be name=value, got "${entry}"`);
+    return [entry.slice(0, at), entry.slice(at + 1)];
+  }));
+}
+
+async function readTemplates(file: string): Promise<OutputTemplates> {
+  const content = await readFile(file, 'utf8');
+  try {
+    return parseTemplates(content);
+  } catch (e: any) {
+    throw new UsageError(`--templates ${file}: ${e.message}`);
+  }
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) throw new UsageError('No spec file given and nothing piped to stdin');
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,47 @@
+import React from 'react';
+
+export type ChangelogSide = 'previous' | 'current';
+
+interface ChangelogUploadProps {
+  fileNames: Record<ChangelogSide, string | null>;
+  onSelect: (side: ChangelogSide, files: File[]) => void;
+}
+
+const SIDES: { side: ChangelogSide; label: string }[] = [
+  { side: 'previous', label: 'Previous version' },
+  { side: 'current', label: 'New version' },
+];
+
+/**
+ * Two upload targets side by side, one per spec version. Each accepts the root spec
+ * plus the files its relative `$ref`s point into, like the main upload.
+ */
+const ChangelogUpload: React.FC<ChangelogUploadProps> = ({ fileNames, onSelect }) => (
+  <div className="flex-1 grid grid-cols-2 gap-4">
+    {SIDES.map(({ side, label }) => (
+      <div
+        key={side}
+        className="flex flex-col justify-center border-2 border-dashed border-slate-200 rounded-xl bg-slate-50 hover:bg-slate-100 transition-all p-6 text-center relative"
+      >
+        <input
+          type="file"
+          accept=".json,.yaml,.yml"
+          multiple
+          onChange={event => {
+            const files: File[] = Array.from(event.target.files || []);
+            if (files.length > 0) onSelect(side, files);
+            // Allow picking the same file again after editing it
+            event.target.value = '';
+          }}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+        />
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{label}</span>
+        <span className={`text-sm break-all ${fileNames[side] ? 'font-semibold text-slate-700' : 'text-slate-400'}`}>
+          {fileNames[side] || 'Click to select a JSON or YAML file'}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default ChangelogUpload;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Diagnostic, DiagnosticSeverity } from '../types';
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostic[];
+}
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-amber-100 text-amber-700',
+  info: 'bg-slate-100 text-slate-600',
+};
+
+const SEVERITY_ORDER: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics }) => {
+  if (diagnostics.length === 0) return null;
+
+  const sorted = [...diagnostics].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  const counts = SEVERITY_ORDER
+    .map(severity => ({ severity, count: diagnostics.filter(d => d.severity === severity).length }))
+    .filter(c => c.count > 0);
+
+  return (
+    <details className="mt-6 border border-slate-200 rounded-xl overflow-hidden" open={counts.some(c => c.severity === 'error')}>
+      <summary className="px-4 py-3 cursor-pointer bg-slate-50 text-sm font-semibold text-slate-700 flex items-center gap-2">
+        Spec Diagnostics
+        {counts.map(({ severity, count }) => (
+          <span key={severity} className={`text-xs font-medium rounded-full px-2 py-0.5 ${SEVERITY_STYLES[severity]}`}>
+            {count} {severity}{count === 1 ? '' : 's'}
+          </span>
+        ))}
+      </summary>
+      <ul className="divide-y divide-slate-100 max-h-80 overflow-auto">
+        {sorted.map((d, i) => (
+          <li key={i} className="px-4 py-2 text-sm">
+            <div className="flex items-start gap-2">
+              <span className={`mt-0.5 text-[10px] uppercase font-bold rounded px-1.5 py-0.5 ${SEVERITY_STYLES[d.severity]}`}>{d.severity}</span>
+              <span className="text-slate-700">{d.message}</span>
+            </div>
+            <code className="block mt-1 ml-1 text-xs text-slate-400 code-font break-all">#{d.pointer} · {d.code}</code>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default DiagnosticsPanel;
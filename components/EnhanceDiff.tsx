@@ -0,0 +1,59 @@
+import React from 'react';
+import { EnhanceResult } from '../types';
+import { DiffLine, diffLines } from '../services/diffService';
+
+interface EnhanceDiffProps {
+  result: EnhanceResult;
+  /** Show the file of each section; only useful with several output files. */
+  showPaths: boolean;
+}
+
+// Unchanged lines kept around each change
+const CONTEXT = 1;
+
+const LINE_STYLES: Record<DiffLine['kind'], string> = {
+  same: 'text-slate-500',
+  added: 'bg-green-950 text-green-300',
+  removed: 'bg-red-950 text-red-300',
+};
+
+const LINE_MARKS: Record<DiffLine['kind'], string> = { same: ' ', added: '+', removed: '-' };
+
+/**
+ * What the model changed, one block per rewritten operation, followed by the sections it skipped.
+ */
+const EnhanceDiff: React.FC<EnhanceDiffProps> = ({ result, showPaths }) => (
+  <div className="p-6 code-font text-sm flex flex-col gap-6">
+    {result.changes.length === 0 && <p className="text-slate-500 italic">The model did not change anything.</p>}
+    {result.changes.map(change => {
+      const lines = diffLines(change.before, change.after);
+      const near = (index: number) => lines.slice(Math.max(0, index - CONTEXT), index + CONTEXT + 1).some(l => l.kind !== 'same');
+      return (
+        <div key={`${change.path} ${change.operation}`}>
+          <h4 className="text-white font-semibold mb-2">
+            {change.operation}{showPaths && <span className="text-slate-500 font-normal"> · {change.path}</span>}
+          </h4>
+          <pre className="whitespace-pre-wrap leading-relaxed">
+            {lines.map((line, i) => near(i) ? (
+              <div key={i} className={LINE_STYLES[line.kind]}>{LINE_MARKS[line.kind]} {line.text}</div>
+            ) : near(i - 1) ? (
+              <div key={i} className="text-slate-600">⋯</div>
+            ) : null)}
+          </pre>
+        </div>
+      );
+    })}
+    {result.skipped.length > 0 && (
+      <div>
+        <h4 className="text-amber-300 font-semibold mb-2">Kept as generated</h4>
+        <ul className="text-slate-400">
+          {result.skipped.map(item => (
+            <li key={`${item.path} ${item.operation}`}>{item.operation}: {item.reason}</li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+);
+
+export default EnhanceDiff;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { LlmProviderConfig } from '../types';
+import { getLlmProviders } from '../services/llmProviders';
+import { EnhanceProgress } from '../services/enhanceService';
+
+interface EnhancePanelProps {
+  config: LlmProviderConfig;
+  onConfigChange: (config: LlmProviderConfig) => void;
+  /** Set while a run is in progress. */
+  progress: EnhanceProgress | null;
+  disabled: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Provider settings and the button that sends the generated output, one operation at a time,
+ * to a model that improves summaries and fills in missing descriptions.
+ */
+const EnhancePanel: React.FC<EnhancePanelProps> = ({ config, onConfigChange, progress, disabled, onStart, onCancel }) => {
+  const providers = getLlmProviders();
+  const provider = providers.find(p => p.id === config.provider) || providers[0];
+  const set = (changes: Partial<LlmProviderConfig>) => onConfigChange({ ...config, ...changes });
+
+  return (
+    <div className="mt-6 border border-slate-200 rounded-xl p-4">
+      <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider mb-3">AI Enhance</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs text-slate-500">
+        <label className="flex flex-col gap-1">
+          Provider
+          <select
+            value={provider.id}
+            onChange={event => onConfigChange({ provider: event.target.value })}
+            className="border border-slate-200 rounded-md px-2 py-1 text-sm text-slate-700 bg-white"
+          >
+            {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Model
+          <input
+            type="text"
+            value={config.model || ''}
+            placeholder={provider.defaultModel}
+            onChange={event => set({ model: event.target.value || undefined })}
+            className="border border-slate-200 rounded-md px-2 py-1 text-sm text-slate-700"
+          />
+        </label>
+        {provider.id !== 'mock' && (
+          <label className="flex flex-col gap-1">
+            API key
+            <input
+              type="password"
+              value={config.apiKey || ''}
+              placeholder={provider.id === 'gemini' ? 'Built-in key' : 'None'}
+              onChange={event => set({ apiKey: event.target.value || undefined })}
+              className="border border-slate-200 rounded-md px-2 py-1 text-sm text-slate-700"
+            />
+          </label>
+        )}
+        {provider.defaultBaseUrl && (
+          <label className="flex flex-col gap-1">
+            Base URL
+            <input
+              type="text"
+              value={config.baseUrl || ''}
+              placeholder={provider.defaultBaseUrl}
+              onChange={event => set({ baseUrl: event.target.value || undefined })}
+              className="border border-slate-200 rounded-md px-2 py-1 text-sm code-font text-slate-700"
+            />
+          </label>
+        )}
+      </div>
+
+      {progress ? (
+        <div className="mt-3 flex items-center gap-3 text-sm">
+          <div className="flex-1">
+            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+            </div>
+            <p className="mt-1 text-xs text-slate-500 truncate">
+              {progress.done} of {progress.total} operations{progress.operation && ` · ${progress.operation}`}
+            </p>
+          </div>
+          <button onClick={onCancel} className="px-3 py-1 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50">
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={onStart}
+          disabled={disabled}
+          className="mt-3 w-full py-2 px-4 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          Enhance with AI
+        </button>
+      )}
+      <p className="text-xs text-slate-400 mt-2">
+        Starts from the output above and only improves summaries and fills in missing descriptions.
+        Sections are sent to the provider one operation at a time; answers that change anything else are discarded.
+      </p>
+    </div>
+  );
+};
+
+export default EnhancePanel;
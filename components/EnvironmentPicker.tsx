@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { ConversionOptions, ServerSummary } from '../types';
+import { DEFAULT_BASE_URL, expandServerUrl } from '../services/serverService';
+
+interface EnvironmentPickerProps {
+  /** The spec's top-level servers. */
+  servers: ServerSummary[];
+  options: ConversionOptions;
+  onChange: (options: ConversionOptions) => void;
+}
+
+const CUSTOM = 'custom';
+
+/**
+ * Picks the base URL every usage snippet calls: one of the spec's servers (e.g. staging or
+ * production) with its variables filled in, or a custom URL such as a local deployment.
+ */
+const EnvironmentPicker: React.FC<EnvironmentPickerProps> = ({ servers, options, onChange }) => {
+  const [custom, setCustom] = useState(!!options.serverUrl || servers.length === 0);
+  useEffect(() => {
+    if (servers.length === 0) setCustom(true);
+  }, [servers.length]);
+
+  const index = Math.min(options.serverIndex ?? 0, Math.max(servers.length - 1, 0));
+  const server = servers[index];
+  const values = options.serverVariables || {};
+
+  const selectServer = (value: string) => {
+    if (value === CUSTOM) {
+      setCustom(true);
+      return;
+    }
+    setCustom(false);
+    onChange({ ...options, serverIndex: Number(value), serverUrl: undefined });
+  };
+
+  const setVariable = (name: string, value: string) => {
+    const next = { ...values, [name]: value };
+    // A variable left at its default is not an override
+    if (!value || value === server?.variables.find(variable => variable.name === name)?.default) delete next[name];
+    onChange({ ...options, serverVariables: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  const calls = custom
+    ? options.serverUrl || (server ? expandServerUrl(server, values) : DEFAULT_BASE_URL)
+    : server ? expandServerUrl(server, values) : DEFAULT_BASE_URL;
+
+  return (
+    <div className="mt-6 border border-slate-200 rounded-xl p-4">
+      <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider mb-3">Environment</h3>
+      {servers.length > 0 && (
+        <label className="flex items-center gap-2 text-sm text-slate-700 mb-3">
+          Server
+          <select
+            value={custom ? CUSTOM : String(index)}
+            onChange={event => selectServer(event.target.value)}
+            className="flex-1 min-w-0 border border-slate-200 rounded-md px-2 py-1 text-sm bg-white"
+          >
+            {servers.map((item, i) => (
+              <option key={i} value={i}>{item.description ? `${item.description} (${item.url})` : item.url}</option>
+            ))}
+            <option value={CUSTOM}>Custom base URL…</option>
+          </select>
+        </label>
+      )}
+
+      {custom ? (
+        <UrlInput value={options.serverUrl} onCommit={serverUrl => onChange({ ...options, serverUrl })} />
+      ) : server && server.variables.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {server.variables.map(variable => (
+            <label key={variable.name} className="flex flex-col gap-1 text-xs text-slate-500" title={variable.description}>
+              <span className="code-font">{variable.name}</span>
+              {variable.enum ? (
+                <select
+                  value={values[variable.name] ?? variable.default}
+                  onChange={event => setVariable(variable.name, event.target.value)}
+                  className="border border-slate-200 rounded-md px-2 py-1 text-sm text-slate-700 bg-white"
+                >
+                  {variable.enum.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+              ) : (
+                <VariableInput value={values[variable.name] ?? variable.default} onCommit={value => setVariable(variable.name, value)} />
+              )}
+            </label>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-slate-400 mt-2">
+        Usage snippets call <code className="code-font break-all">{calls}</code>
+        {servers.length === 0 && ' (the spec declares no servers)'}.
+      </p>
+    </div>
+  );
+};
+
+interface UrlInputProps {
+  value?: string;
+  onCommit: (value: string | undefined) => void;
+}
+
+/**
+ * Committed on blur or Enter so half-typed URLs do not re-run the conversion.
+ */
+const UrlInput: React.FC<UrlInputProps> = ({ value, onCommit }) => {
+  const [draft, setDraft] = useState(value || '');
+  useEffect(() => setDraft(value || ''), [value]);
+  const commit = () => onCommit(draft.trim() || undefined);
+  return (
+    <input
+      type="url"
+      value={draft}
+      placeholder="https://staging.example.com/v1"
+      onChange={event => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={event => { if (event.key === 'Enter') commit(); }}
+      className="w-full border border-slate-200 rounded-md px-2 py-1 text-sm code-font"
+    />
+  );
+};
+
+interface VariableInputProps {
+  value: string;
+  onCommit: (value: string) => void;
+}
+
+const VariableInput: React.FC<VariableInputProps> = ({ value, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={event => setDraft(event.target.value)}
+      onBlur={() => onCommit(draft.trim())}
+      onKeyDown={event => { if (event.key === 'Enter') onCommit(draft.trim()); }}
+      className="border border-slate-200 rounded-md px-2 py-1 text-sm text-slate-700 code-font"
+    />
+  );
+};
+
+export default EnvironmentPicker;
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SourceMapping } from '../types';
+import { MarkdownBlock, MarkdownInline, parseMarkdownBlocks, parseMarkdownInline } from '../services/markdownService';
+
+interface MarkdownViewProps {
+  text: string;
+  /** Output lines traced back to the spec; their blocks are clickable. */
+  sourceMap?: SourceMapping[];
+  onShowSource: (line: number) => void;
+  /** Follows a link to another output file, e.g. from the split index to a tag file. */
+  onOpenFile?: (path: string) => void;
+}
+
+// Rendering is one element per block; past this many lines the raw view is the usable one
+const MAX_RENDERED_LINES = 20000;
+
+// Links with a scheme leave the app; the rest point into the output
+const EXTERNAL_LINK = /^[a-z][a-z\d+.-]*:/i;
+
+/**
+ * Shows the output as formatted Markdown with an outline of its sections and operations and a
+ * search box. Clicking an operation, parameter or field jumps to where the spec defines it.
+ */
+const MarkdownView: React.FC<MarkdownViewProps> = ({ text, sourceMap, onShowSource, onOpenFile }) => {
+  const lineCount = useMemo(() => text.split('\n').length, [text]);
+  const blocks = useMemo(() => (lineCount > MAX_RENDERED_LINES ? [] : parseMarkdownBlocks(text)), [text, lineCount]);
+  const mapped = useMemo(() => new Set((sourceMap || []).map(mapping => mapping.line)), [sourceMap]);
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const needle = query.trim().toLowerCase();
+  const matches = useMemo(
+    () => (needle ? blocks.filter(block => blockText(block).toLowerCase().includes(needle)).map(block => block.line) : []),
+    [blocks, needle]
+  );
+  const matched = useMemo(() => new Set(matches), [matches]);
+  const outline = blocks.filter((block): block is Extract<MarkdownBlock, { kind: 'heading' }> =>
+    block.kind === 'heading' && block.level >= 2 && block.level <= 3 && (!needle || block.text.toLowerCase().includes(needle)));
+
+  const scrollToLine = (line: number) => {
+    containerRef.current?.querySelector(`[data-line="${line}"]`)?.scrollIntoView({ block: 'center' });
+  };
+
+  useEffect(() => setCurrent(0), [needle]);
+  useEffect(() => {
+    if (matches.length > 0) scrollToLine(matches[current % matches.length]);
+  }, [matches, current]);
+
+  const step = (delta: number) => {
+    if (matches.length > 0) setCurrent(prev => (prev + delta + matches.length) % matches.length);
+  };
+
+  // A click that ends a text selection is left alone
+  const handleClick = (line: number) => {
+    if (!mapped.has(line) || !window.getSelection()?.isCollapsed) return;
+    onShowSource(line);
+  };
+
+  const handleLink = (event: React.MouseEvent, href: string) => {
+    event.stopPropagation();
+    if (EXTERNAL_LINK.test(href)) return;
+    event.preventDefault();
+    const [path, id] = href.split('#');
+    if (path) onOpenFile?.(path);
+    else if (id) containerRef.current?.querySelector(`[id="${CSS.escape(id)}"]`)?.scrollIntoView({ block: 'start' });
+  };
+
+  if (lineCount > MAX_RENDERED_LINES) {
+    return (
+      <p className="p-6 text-sm text-slate-500 italic">
+        This output has {lineCount.toLocaleString()} lines, too many to render; switch to the raw view.
+      </p>
+    );
+  }
+
+  const inline = (pieces: MarkdownInline[]): React.ReactNode[] => pieces.map((piece, i) => {
+    switch (piece.kind) {
+      case 'text': return piece.text;
+      case 'code': return <code key={i} className="code-font text-[0.85em] bg-slate-800 text-sky-200 rounded px-1">{piece.text}</code>;
+      case 'strong': return <strong key={i} className="text-slate-100">{inline(piece.children)}</strong>;
+      case 'emphasis': return <em key={i}>{inline(piece.children)}</em>;
+      case 'link': return <a key={i} href={piece.href} target={EXTERNAL_LINK.test(piece.href) ? '_blank' : undefined} rel="noreferrer" onClick={event => handleLink(event, piece.href)} className="text-blue-400 hover:underline">{inline(piece.children)}</a>;
+    }
+  });
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-2 bg-slate-900 border-b border-slate-800">
+        <input
+          type="search"
+          value={query}
+          placeholder="Search the output"
+          onChange={event => setQuery(event.target.value)}
+          onKeyDown={event => { if (event.key === 'Enter') step(event.shiftKey ? -1 : 1); }}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 placeholder:text-slate-500"
+        />
+        {needle && (
+          <>
+            <span className="text-xs text-slate-500 whitespace-nowrap">
+              {matches.length > 0 ? `${(current % matches.length) + 1} of ${matches.length}` : 'No matches'}
+            </span>
+            <button onClick={() => step(-1)} disabled={matches.length === 0} className="px-2 py-0.5 text-xs text-slate-400 border border-slate-700 rounded disabled:opacity-40">Prev</button>
+            <button onClick={() => step(1)} disabled={matches.length === 0} className="px-2 py-0.5 text-xs text-slate-400 border border-slate-700 rounded disabled:opacity-40">Next</button>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-start">
+        {outline.length > 0 && (
+          <nav className="hidden md:block sticky top-0 w-56 shrink-0 max-h-[75vh] overflow-auto border-r border-slate-800 py-4 text-xs">
+            {outline.map(heading => (
+              <button
+                key={heading.line}
+                onClick={() => scrollToLine(heading.line)}
+                className={`block w-full text-left truncate py-1 pr-3 hover:text-white ${heading.level === 2 ? 'pl-4 font-semibold text-slate-300' : 'pl-7 text-slate-400 code-font'}`}
+                title={heading.text}
+              >
+                {heading.text}
+              </button>
+            ))}
+          </nav>
+        )}
+
+        <div ref={containerRef} className="flex-1 min-w-0 p-6 text-sm leading-relaxed">
+          {blocks.map(block => {
+            const clickable = mapped.has(block.line);
+            const highlight = matched.has(block.line)
+              ? (matches[current % matches.length] === block.line ? ' bg-yellow-400/20 ring-1 ring-yellow-400/60' : ' bg-yellow-400/10')
+              : '';
+            const shared = {
+              'data-line': block.line,
+              onClick: () => handleClick(block.line),
+              title: clickable ? 'Show in spec' : undefined,
+            };
+            const interactive = `rounded${highlight}${clickable ? ' cursor-pointer hover:bg-slate-800/70' : ''}`;
+            const indent = 'depth' in block ? { marginLeft: `${block.depth * 1.25}rem` } : undefined;
+            switch (block.kind) {
+              case 'heading': {
+                const sizes = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm'];
+                return (
+                  <div key={block.line} {...shared} id={block.id} className={`${interactive} ${sizes[block.level - 1]} font-bold text-white mt-6 mb-2`}>
+                    {inline(parseMarkdownInline(block.text))}
+                  </div>
+                );
+              }
+              case 'item':
+                return (
+                  <div key={block.line} {...shared} className={`${interactive} flex gap-2`} style={indent}>
+                    <span className="text-slate-600">•</span>
+                    <span>{inline(parseMarkdownInline(block.text))}</span>
+                  </div>
+                );
+              case 'paragraph':
+                return <p key={block.line} {...shared} className={`${interactive} my-1`} style={indent}>{inline(parseMarkdownInline(block.text))}</p>;
+              case 'quote':
+                return <blockquote key={block.line} {...shared} className={`${interactive} border-l-2 border-slate-600 pl-3 my-2 text-slate-400`}>{inline(parseMarkdownInline(block.text))}</blockquote>;
+              case 'code':
+                return (
+                  <pre key={block.line} {...shared} className={`${interactive} code-font text-xs bg-slate-950 border border-slate-800 p-3 my-2 overflow-x-auto`} style={indent}>
+                    {block.code}
+                  </pre>
+                );
+              case 'rule':
+                return <hr key={block.line} {...shared} className="border-slate-800 my-6" />;
+            }
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function blockText(block: MarkdownBlock): string {
+  if (block.kind === 'code') return block.code;
+  return block.kind === 'rule' ? '' : block.text;
+}
+
+export default MarkdownView;
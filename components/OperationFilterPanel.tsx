@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { OperationFilter, OperationSummary } from '../types';
+import { OPERATION_METHODS } from '../services/operationService';
+
+interface OperationFilterPanelProps {
+  operations: OperationSummary[];
+  filter: OperationFilter;
+  onChange: (filter: OperationFilter) => void;
+  onExport: () => void;
+}
+
+type TagState = 'include' | 'exclude' | null;
+
+const TAG_STYLES: Record<string, string> = {
+  include: 'bg-green-100 text-green-700 border-green-200',
+  exclude: 'bg-red-100 text-red-700 border-red-200 line-through',
+  none: 'bg-white text-slate-600 border-slate-200',
+};
+
+/**
+ * Rules (tags, methods, path globs, deprecated, vendor extensions) plus a checklist of every
+ * operation grouped by tag. Operations the rules drop are greyed out; unchecking one adds it
+ * to `excludeOperations`.
+ */
+const OperationFilterPanel: React.FC<OperationFilterPanelProps> = ({ operations, filter, onChange, onExport }) => {
+  if (operations.length === 0) return null;
+
+  const excluded = filter.excludeOperations || [];
+  const selected = operations.filter(op => op.matched && !excluded.includes(op.name));
+  const tags = Array.from(new Set<string>(operations.flatMap(op => op.tags)));
+  const methods = OPERATION_METHODS.filter(method => operations.some(op => op.method === method));
+  const groups = Array.from(new Set<string>(operations.map(op => op.group)))
+    .map(name => ({ name, operations: operations.filter(op => op.group === name) }));
+
+  // Empty lists are dropped so a saved filter only names what it restricts
+  const update = (changes: Partial<OperationFilter>) => {
+    const next: any = { ...filter, ...changes };
+    Object.keys(next).forEach(key => {
+      if (next[key] === undefined || next[key] === false || (Array.isArray(next[key]) && next[key].length === 0)) delete next[key];
+    });
+    onChange(next);
+  };
+
+  const tagState = (tag: string): TagState =>
+    filter.includeTags?.includes(tag) ? 'include' : filter.excludeTags?.includes(tag) ? 'exclude' : null;
+
+  // Each click cycles a tag through neutral, include and exclude
+  const cycleTag = (tag: string) => {
+    const state = tagState(tag);
+    const includeTags = (filter.includeTags || []).filter(t => t !== tag);
+    const excludeTags = (filter.excludeTags || []).filter(t => t !== tag);
+    if (state === null) includeTags.push(tag);
+    if (state === 'include') excludeTags.push(tag);
+    update({ includeTags, excludeTags });
+  };
+
+  const toggleMethod = (method: string) => {
+    const current = filter.methods?.length ? filter.methods : methods;
+    const next = current.includes(method) ? current.filter(m => m !== method) : [...current, method];
+    update({ methods: next.length === methods.length ? undefined : OPERATION_METHODS.filter(m => next.includes(m)) });
+  };
+
+  const setSelected = (names: string[], checked: boolean) => {
+    const rest = excluded.filter(name => !names.includes(name));
+    update({ excludeOperations: checked ? rest : [...rest, ...names] });
+  };
+
+  const importFilter = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange(JSON.parse(await file.text()));
+    } catch {
+      alert('The selected file is not a saved filter.');
+    }
+  };
+
+  return (
+    <div className="mt-6 border border-slate-200 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider">Operations</h3>
+        <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-slate-100 text-slate-600">
+          {selected.length} of {operations.length} selected
+        </span>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => cycleTag(tag)}
+              title="Click to include, again to exclude, again to reset"
+              className={`text-xs px-2 py-0.5 rounded-full border ${TAG_STYLES[tagState(tag) || 'none']}`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2 mb-3">
+        {methods.map(method => (
+          <label key={method} className="flex items-center gap-1.5 text-xs code-font text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!filter.methods?.length || filter.methods.includes(method)}
+              onChange={() => toggleMethod(method)}
+            />
+            {method.toUpperCase()}
+          </label>
+        ))}
+        <label className="flex items-center gap-1.5 text-xs text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!filter.excludeDeprecated}
+            onChange={() => update({ excludeDeprecated: !filter.excludeDeprecated })}
+          />
+          Exclude deprecated
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+        <ListInput label="Include paths" placeholder="/v2/billing/**" value={filter.includePaths} onCommit={includePaths => update({ includePaths })} />
+        <ListInput label="Exclude paths" placeholder="/admin/*" value={filter.excludePaths} onCommit={excludePaths => update({ excludePaths })} />
+        <ListInput label="Exclude extensions" placeholder="x-internal" value={filter.excludeExtensions} onCommit={excludeExtensions => update({ excludeExtensions })} />
+      </div>
+
+      <ul className="max-h-80 overflow-auto border border-slate-100 rounded-lg divide-y divide-slate-100 text-sm">
+        {groups.map(group => {
+          const selectable = group.operations.filter(op => op.matched).map(op => op.name);
+          const allChecked = selectable.length > 0 && selectable.every(name => !excluded.includes(name));
+          return (
+            <li key={group.name} className="px-3 py-2">
+              <label className="flex items-center gap-2 font-medium text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allChecked}
+                  disabled={selectable.length === 0}
+                  onChange={() => setSelected(selectable, !allChecked)}
+                />
+                {group.name}
+              </label>
+              <ul className="mt-1 ml-6 flex flex-col gap-0.5">
+                {group.operations.map(op => (
+                  <li key={op.name}>
+                    <label className={`flex items-center gap-2 text-xs ${op.matched ? 'text-slate-600 cursor-pointer' : 'text-slate-300 line-through'}`}>
+                      <input
+                        type="checkbox"
+                        checked={op.matched && !excluded.includes(op.name)}
+                        disabled={!op.matched}
+                        onChange={event => setSelected([op.name], event.target.checked)}
+                      />
+                      <span className="code-font shrink-0">{op.name}</span>
+                      {op.summary && <span className="truncate text-slate-400">{op.summary}</span>}
+                      {op.deprecated && <span className="text-[10px] uppercase font-bold rounded px-1 bg-amber-100 text-amber-700">deprecated</span>}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-2 mt-3 text-xs">
+        <button onClick={onExport} className="px-2 py-1 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50">
+          Export filter
+        </button>
+        <label className="px-2 py-1 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 cursor-pointer">
+          Import filter
+          <input type="file" accept=".json" onChange={importFilter} className="hidden" />
+        </label>
+        <button onClick={() => onChange({})} className="px-2 py-1 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50">
+          Reset
+        </button>
+      </div>
+      <p className="text-xs text-slate-400 mt-2">
+        The filter is saved in this browser and reapplied to the next upload. Exported filters work with the CLI's <code>--filter</code>.
+      </p>
+    </div>
+  );
+};
+
+interface ListInputProps {
+  label: string;
+  placeholder: string;
+  value?: string[];
+  onCommit: (value: string[]) => void;
+}
+
+/**
+ * Comma-separated list, committed on blur or Enter so half-typed entries do not re-run the conversion.
+ */
+const ListInput: React.FC<ListInputProps> = ({ label, placeholder, value, onCommit }) => {
+  const joined = (value || []).join(', ');
+  const [draft, setDraft] = useState(joined);
+  useEffect(() => setDraft(joined), [joined]);
+
+  const commit = () => onCommit(draft.split(',').map(item => item.trim()).filter(Boolean));
+
+  return (
+    <label className="flex flex-col gap-1 text-xs text-slate-500">
+      {label}
+      <input
+        type="text"
+        value={draft}
+        placeholder={placeholder}
+        onChange={event => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={event => { if (event.key === 'Enter') commit(); }}
+        className="border border-slate-200 rounded-md px-2 py-1 text-sm code-font text-slate-700"
+      />
+    </label>
+  );
+};
+
+export default OperationFilterPanel;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { ConversionOptions, OutputFormat, OutputMode, SnippetLanguage } from '../types';
+import { DEFAULT_SNIPPET_LANGUAGES, getSnippetGenerators } from '../services/snippetService';
+import { getOutputRenderers } from '../services/outputRenderers';
+import { DEFAULT_SHARED_SCHEMA_MIN_FIELDS, DEFAULT_SHARED_SCHEMA_MIN_USES } from '../services/schemaUsageService';
+
+interface OutputOptionsProps {
+  options: ConversionOptions;
+  onChange: (options: ConversionOptions) => void;
+}
+
+const OUTPUT_MODES: { value: OutputMode; label: string; hint: string }[] = [
+  { value: 'single', label: 'Single file', hint: 'All endpoints in one flat list.' },
+  { value: 'grouped', label: 'Grouped by tag', hint: 'One section per tag, in the order of the spec\'s tags.' },
+  { value: 'split', label: 'llms.txt + per-tag files', hint: 'A short index plus one detail file per tag, downloaded as a zip.' },
+];
+
+const OutputOptions: React.FC<OutputOptionsProps> = ({ options, onChange }) => {
+  const format = options.format || 'llm-txt';
+  const mode = options.outputMode || 'single';
+  const languages = options.snippetLanguages || DEFAULT_SNIPPET_LANGUAGES;
+
+  const toggleLanguage = (id: SnippetLanguage) => {
+    const next = languages.includes(id) ? languages.filter(l => l !== id) : [...languages, id];
+    // Keep the order of the generator registry rather than the click order
+    const order = getSnippetGenerators().map(g => g.id);
+    onChange({ ...options, snippetLanguages: next.sort((a, b) => order.indexOf(a) - order.indexOf(b)) });
+  };
+
+  return (
+    <div className="mt-6 border border-slate-200 rounded-xl p-4">
+      <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider mb-3">Output Options</h3>
+      <label className="flex items-center gap-2 text-sm text-slate-700 mb-3">
+        Format
+        <select
+          value={format}
+          onChange={event => onChange({ ...options, format: event.target.value as OutputFormat })}
+          className="border border-slate-200 rounded-md px-2 py-1 text-sm bg-white"
+        >
+          <option value="llm-txt">llm.txt (full Markdown)</option>
+          {getOutputRenderers().map(renderer => <option key={renderer.id} value={renderer.id}>{renderer.label}</option>)}
+        </select>
+      </label>
+      {format !== 'llm-txt' ? (
+        <p className="text-xs text-slate-400">
+          Rendered from the parsed operations, parameters and schemas; the layout, snippet, schema and budget options apply to llm.txt only.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-col gap-2">
+            {OUTPUT_MODES.map(item => (
+              <label key={item.value} className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="output-mode"
+                  className="mt-1"
+                  checked={mode === item.value}
+                  onChange={() => onChange({ ...options, outputMode: item.value })}
+                />
+                <span>
+                  <span className="font-medium">{item.label}</span>
+                  <span className="block text-xs text-slate-400">{item.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider mt-5 mb-3">Usage Snippets</h3>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {getSnippetGenerators().map(generator => (
+              <label key={generator.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={languages.includes(generator.id)}
+                  onChange={() => toggleLanguage(generator.id)}
+                />
+                {generator.label}
+              </label>
+            ))}
+          </div>
+
+          <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider mt-5 mb-3">Shared Schemas</h3>
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!options.sharedSchemas}
+              onChange={() => onChange({ ...options, sharedSchemas: !options.sharedSchemas })}
+            />
+            Describe component schemas once and link to them
+          </label>
+          {options.sharedSchemas && (
+            <div className="flex flex-wrap gap-x-4 gap-y-2 mt-2 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                Used by at least
+                <input
+                  type="number"
+                  min={0}
+                  value={options.sharedSchemaMinUses ?? DEFAULT_SHARED_SCHEMA_MIN_USES}
+                  onChange={event => onChange({ ...options, sharedSchemaMinUses: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+                  className="w-16 border border-slate-200 rounded-md px-2 py-1 text-sm"
+                />
+                operations
+              </label>
+              <label className="flex items-center gap-2">
+                with at least
+                <input
+                  type="number"
+                  min={0}
+                  value={options.sharedSchemaMinFields ?? DEFAULT_SHARED_SCHEMA_MIN_FIELDS}
+                  onChange={event => onChange({ ...options, sharedSchemaMinFields: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+                  className="w-16 border border-slate-200 rounded-md px-2 py-1 text-sm"
+                />
+                fields
+              </label>
+            </div>
+          )}
+          <p className="text-xs text-slate-400 mt-1">Smaller or single-use schemas stay inline.</p>
+
+          <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider mt-5 mb-3">Token Budget</h3>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="number"
+              min={1}
+              step={1000}
+              placeholder="No limit"
+              value={options.tokenBudget ?? ''}
+              onChange={event => {
+                const budget = parseInt(event.target.value, 10);
+                onChange({ ...options, tokenBudget: budget > 0 ? budget : undefined });
+              }}
+              className="w-32 border border-slate-200 rounded-md px-2 py-1 text-sm"
+            />
+            tokens per file
+          </label>
+          <p className="text-xs text-slate-400 mt-1">
+            Over budget, examples are dropped first, then shared schemas are collapsed, long descriptions
+            truncated and deprecated endpoints omitted.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OutputOptions;
@@ -0,0 +1,71 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+interface OutputViewerProps {
+  text: string;
+  /** Called with the 1-based line of a plain click, to show where it comes from in the spec. */
+  onLineClick?: (line: number) => void;
+}
+
+// Outputs up to this many lines are shown whole, wrapped; longer ones are virtualized
+const VIRTUALIZE_FROM_LINES = 3000;
+
+// Matches the `leading-5` line height of the virtualized view
+const LINE_HEIGHT = 20;
+
+// Lines rendered above and below the visible ones so fast scrolling does not show gaps
+const OVERSCAN = 40;
+
+/**
+ * Shows the output text. Large outputs only render the lines in view (unwrapped, so every line
+ * has the same height), which keeps scrolling smooth for multi-megabyte results.
+ */
+const OutputViewer: React.FC<OutputViewerProps> = ({ text, onLineClick }) => {
+  const lines = useMemo(() => text.split('\n'), [text]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewHeight, setViewHeight] = useState(800);
+  const virtualized = lines.length > VIRTUALIZE_FROM_LINES;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [virtualized]);
+
+  // The text is a single node, so the caret offset counts the lines above the click
+  const handleClick = (firstLine: number) => {
+    const selection = window.getSelection();
+    if (!onLineClick || !selection?.isCollapsed || selection.anchorNode?.nodeType !== Node.TEXT_NODE) return;
+    const before = selection.anchorNode.textContent!.slice(0, selection.anchorOffset);
+    onLineClick(firstLine + before.split('\n').length);
+  };
+
+  if (!virtualized) {
+    return <pre onClick={() => handleClick(0)} className="p-6 code-font text-sm leading-relaxed whitespace-pre-wrap">{text}</pre>;
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / LINE_HEIGHT) - OVERSCAN);
+  const last = Math.min(lines.length, Math.ceil((scrollTop + viewHeight) / LINE_HEIGHT) + OVERSCAN);
+  return (
+    <div
+      ref={containerRef}
+      onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+      className="h-[75vh] overflow-auto"
+    >
+      <div className="relative" style={{ height: lines.length * LINE_HEIGHT + 48 }}>
+        <pre
+          onClick={() => handleClick(first)}
+          className="absolute left-0 px-6 code-font text-sm leading-5 whitespace-pre"
+          style={{ top: 24 + first * LINE_HEIGHT }}
+        >
+          {lines.slice(first, last).join('\n')}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default OutputViewer;
@@ -0,0 +1,92 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+
+/** A place in the spec to show: the 1-based line and column a JSON Pointer's value is written at. */
+export interface SourceTarget {
+  pointer: string;
+  line: number;
+  column: number;
+}
+
+interface SpecEditorProps {
+  value: string;
+  /** The root file being edited, when the spec was uploaded. */
+  fileName: string | null;
+  onChange: (value: string) => void;
+  /** Selected and scrolled into view whenever it changes. */
+  target: SourceTarget | null;
+}
+
+// Matches the fixed line height of the textarea and gutter, so lines can be scrolled to
+const LINE_HEIGHT = 18;
+
+/**
+ * Edits the spec in place of uploading it: paste one in, or change the uploaded root file.
+ * Lines are numbered and unwrapped so a line from the output's source map can be scrolled to.
+ */
+const SpecEditor: React.FC<SpecEditorProps> = ({ value, fileName, onChange, target }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLPreElement>(null);
+  const lineCount = useMemo(() => countLines(value), [value]);
+  const gutter = useMemo(() => Array.from({ length: lineCount }, (_, i) => i + 1).join('\n'), [lineCount]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!target || !textarea) return;
+    const start = lineOffset(textarea.value, target.line);
+    const end = textarea.value.indexOf('\n', start);
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(start, end === -1 ? textarea.value.length : end);
+    textarea.scrollTop = Math.max(0, (target.line - 4) * LINE_HEIGHT);
+    textarea.scrollIntoView({ block: 'nearest' });
+  }, [target]);
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2 text-xs">
+        <h3 className="font-bold text-slate-700 uppercase tracking-wider">
+          {fileName ? <>Source <span className="normal-case font-normal code-font text-slate-500">{fileName}</span></> : 'Or paste a spec'}
+        </h3>
+        {target && <span className="code-font text-slate-400 truncate ml-2" title={target.pointer}>{target.pointer || '/'} · line {target.line}</span>}
+      </div>
+      <div className="flex border border-slate-200 rounded-lg overflow-hidden bg-slate-50 focus-within:border-blue-300">
+        <pre
+          ref={gutterRef}
+          aria-hidden
+          className="code-font text-xs text-right text-slate-400 select-none px-2 py-2 overflow-hidden border-r border-slate-200 bg-slate-100"
+          style={{ lineHeight: `${LINE_HEIGHT}px`, height: '20rem' }}
+        >
+          {gutter}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={event => onChange(event.target.value)}
+          onScroll={event => { if (gutterRef.current) gutterRef.current.scrollTop = event.currentTarget.scrollTop; }}
+          placeholder="Paste an OpenAPI, Swagger, AsyncAPI, Postman or JSON Schema document in JSON or YAML. The output updates as you type."
+          spellCheck={false}
+          wrap="off"
+          className="flex-1 min-w-0 code-font text-xs text-slate-800 bg-white px-3 py-2 resize-none outline-none whitespace-pre"
+          style={{ lineHeight: `${LINE_HEIGHT}px`, height: '20rem' }}
+        />
+      </div>
+    </div>
+  );
+};
+
+function countLines(text: string): number {
+  let count = 1;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++;
+  return count;
+}
+
+function lineOffset(text: string, line: number): number {
+  let offset = 0;
+  for (let i = 1; i < line; i++) {
+    const next = text.indexOf('\n', offset);
+    if (next === -1) break;
+    offset = next + 1;
+  }
+  return offset;
+}
+
+export default SpecEditor;
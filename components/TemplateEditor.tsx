@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { OutputTemplates, TemplateSlot } from '../types';
+import { compileTemplate } from '../services/templateEngine';
+import { DEFAULT_TEMPLATES, parseTemplates, TEMPLATE_SLOTS } from '../services/templateService';
+
+interface TemplateEditorProps {
+  templates: OutputTemplates;
+  onChange: (templates: OutputTemplates) => void;
+  onExport: () => void;
+}
+
+/**
+ * Edits the llm.txt layout templates one slot at a time, starting from the built-in default.
+ * Edits apply when the textarea loses focus and only once they compile.
+ */
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, onChange, onExport }) => {
+  const [slot, setSlot] = useState<TemplateSlot>('operation');
+  const source = templates[slot] ?? DEFAULT_TEMPLATES[slot];
+  const [draft, setDraft] = useState(source);
+  const [error, setError] = useState<string | null>(null);
+  useEffect(() => {
+    setDraft(source);
+    setError(null);
+  }, [source]);
+
+  const info = TEMPLATE_SLOTS.find(item => item.id === slot)!;
+  const customized = Object.keys(templates) as TemplateSlot[];
+
+  const edit = (value: string) => {
+    setDraft(value);
+    try {
+      compileTemplate(value);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  // A template equal to the default is dropped, so saved files only hold real changes
+  const commit = () => {
+    if (error || draft === source) return;
+    const { [slot]: _, ...rest } = templates;
+    onChange(draft === DEFAULT_TEMPLATES[slot] ? rest : { ...rest, [slot]: draft });
+  };
+
+  const resetSlot = () => {
+    const { [slot]: _, ...rest } = templates;
+    onChange(rest);
+  };
+
+  const importTemplates = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplates(await file.text());
+      onChange(Object.fromEntries(Object.entries(imported).filter(([id, value]) => value !== DEFAULT_TEMPLATES[id as TemplateSlot])));
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  return (
+    <div className="mt-6 border border-slate-200 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider">Templates</h3>
+        {customized.length > 0 && (
+          <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-amber-100 text-amber-700">
+            {customized.length} customized
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {TEMPLATE_SLOTS.map(item => (
+          <button
+            key={item.id}
+            onClick={() => setSlot(item.id)}
+            className={`text-xs px-2 py-0.5 rounded-full border ${item.id === slot ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200'}`}
+          >
+            {item.label}{templates[item.id] !== undefined ? ' *' : ''}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={event => edit(event.target.value)}
+        onBlur={commit}
+        spellCheck={false}
+        rows={slot === 'operation' || slot === 'header' ? 14 : 5}
+        className={`w-full border rounded-md px-2 py-1 text-xs code-font ${error ? 'border-red-300' : 'border-slate-200'}`}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+
+      <details className="mt-2 text-xs text-slate-500">
+        <summary className="cursor-pointer">Variables</summary>
+        <ul className="mt-1 flex flex-col gap-0.5">
+          {Object.entries(info.variables).map(([name, description]) => (
+            <li key={name}><code className="code-font text-slate-700">{`{{${name}}}`}</code> {description}</li>
+          ))}
+        </ul>
+        <p className="mt-2">
+          <code className="code-font">{'{{#name}}…{{/name}}'}</code> repeats for each item of a list or shows its content when the value is set;
+          {' '}<code className="code-font">{'{{^name}}…{{/name}}'}</code> shows it when the value is empty.
+        </p>
+      </details>
+
+      <div className="flex items-center gap-2 mt-3 text-xs">
+        <button onClick={resetSlot} disabled={templates[slot] === undefined} className="px-2 py-1 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 disabled:opacity-50">
+          Reset to default
+        </button>
+        <button onClick={onExport} className="px-2 py-1 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50">
+          Export templates
+        </button>
+        <label className="px-2 py-1 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 cursor-pointer">
+          Import templates
+          <input type="file" accept=".json" onChange={importTemplates} className="hidden" />
+        </label>
+      </div>
+      <p className="text-xs text-slate-400 mt-2">
+        Templates are saved in this browser. Exported templates work with the CLI's <code>--templates</code>.
+      </p>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { TokenReport } from '../types';
+
+interface TokenPanelProps {
+  tokens: TokenReport | null;
+  /** Output file currently shown; its sections are listed. */
+  activePath?: string;
+}
+
+const formatTokens = (tokens: number) => `~${tokens.toLocaleString('en-US')}`;
+
+const TokenPanel: React.FC<TokenPanelProps> = ({ tokens, activePath }) => {
+  if (!tokens || tokens.files.length === 0) return null;
+
+  const file = tokens.files.find(f => f.path === activePath) || tokens.files[0];
+  const total = tokens.files.reduce((sum, f) => sum + f.tokens, 0);
+
+  return (
+    <details className="mt-6 border border-slate-200 rounded-xl overflow-hidden" open={tokens.overBudget}>
+      <summary className="px-4 py-3 cursor-pointer bg-slate-50 text-sm font-semibold text-slate-700 flex items-center gap-2">
+        Token Estimate
+        <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-slate-100 text-slate-600">{formatTokens(total)} tokens</span>
+        {tokens.budget !== undefined && (
+          <span className={`text-xs font-medium rounded-full px-2 py-0.5 ${tokens.overBudget ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+            {tokens.overBudget ? 'over' : 'within'} budget of {tokens.budget.toLocaleString('en-US')}
+          </span>
+        )}
+      </summary>
+
+      {tokens.compaction.length > 0 && (
+        <div className="px-4 py-3 border-b border-slate-100 text-sm">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Compacted</h4>
+          <ul className="flex flex-col gap-2">
+            {tokens.compaction.map(entry => (
+              <li key={entry.step}>
+                <span className="text-slate-700">{entry.message}</span>
+                <code className="block mt-0.5 text-xs text-slate-400 code-font break-all">{entry.items.join(', ')}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-100 max-h-80 overflow-auto text-sm">
+        <li className="px-4 py-2 flex justify-between font-medium text-slate-700">
+          <span className="code-font">{file.path}</span>
+          <span>{formatTokens(file.tokens)}</span>
+        </li>
+        {file.sections.map((section, i) => (
+          <li key={i} className="px-4 py-2">
+            <div className="flex justify-between text-slate-700">
+              <span>{section.title}</span>
+              <span className="text-slate-500">{formatTokens(section.tokens)}</span>
+            </div>
+            {section.children.length > 0 && (
+              <ul className="mt-1 ml-3 flex flex-col gap-0.5">
+                {section.children.map((child, j) => (
+                  <li key={j} className="flex justify-between gap-4 text-xs text-slate-500">
+                    <span className="code-font truncate">{child.title}</span>
+                    <span className="shrink-0">{formatTokens(child.tokens)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default TokenPanel;
@@ -0,0 +1,64 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { localConvert, localConvertToChangelog } from './services/conversionService';
+import { ConversionOptions, ConversionResult, SpecInput } from './types';
+
+export { localConvert, localConvertToLlmTxt, localConvertToFiles, localConvertToChangelog, localListOperations, localListServers, localBuildDocument } from './services/conversionService';
+export { registerOutputRenderer } from './services/outputRenderers';
+export { describeSpecFormat, isJsonSchemaDocument, parseSpecContent } from './services/specParser';
+export { registerSnippetGenerator } from './services/snippetService';
+export { DEFAULT_TEMPLATES, parseTemplates } from './services/templateService';
+export { locatePointer } from './services/sourceMapService';
+export { enhanceFiles } from './services/enhanceService';
+export { registerLlmProvider } from './services/llmProviders';
+export type { EnhanceProgress } from './services/enhanceService';
+export type { LlmProvider, LlmRequest } from './services/llmProviders';
+export type { SnippetGenerator, SnippetRequest } from './services/snippetService';
+export type { OutputRenderer } from './services/outputRenderers';
+export type { ApiBody, ApiDocument, ApiOperation, ApiParameter, ApiResponse, CompactionStep, ConversionOptions, ConversionResult, Diagnostic, EnhanceChange, EnhanceResult, ExampleTemplateContext, FieldTemplateContext, HeaderTemplateContext, LlmProviderConfig, OperationFilter, OperationSummary, OperationTemplateContext, OutputFile, OutputTemplates, ParameterTemplateContext, ServerSummary, ServerVariableSummary, OutputFormat, OutputMode, SnippetLanguage, SourceMapping, SpecChange, TemplateSlot, TokenReport } from './types';
+
+/**
+ * Node entry point: reads a root spec and the files its relative `$ref`s point into,
+ * then converts and validates them. Paths are resolved against `cwd`.
+ */
+export const convertSpecFiles = async (
+  rootPath: string,
+  extraPaths: string[] = [],
+  options: Omit<ConversionOptions, 'fileName' | 'externalFiles'> = {},
+  cwd = process.cwd()
+): Promise<ConversionResult> => {
+  const { content, fileName, externalFiles } = await readSpecFiles(rootPath, extraPaths, cwd);
+  return localConvert(content, { ...options, fileName, externalFiles });
+};
+
+/**
+ * Node entry point for changelogs: compares a previous version of a spec (a single file)
+ * with the current root spec and its referenced files.
+ */
+export const diffSpecFiles = async (
+  previousPath: string,
+  rootPath: string,
+  extraPaths: string[] = [],
+  cwd = process.cwd()
+): Promise<string> => {
+  const previous = await readSpecFiles(previousPath, [], cwd);
+  const current = await readSpecFiles(rootPath, extraPaths, cwd);
+  return localConvertToChangelog(
+    previous.content,
+    current.content,
+    { fileName: previous.fileName },
+    { fileName: current.fileName, externalFiles: current.externalFiles }
+  );
+};
+
+async function readSpecFiles(rootPath: string, extraPaths: string[], cwd: string): Promise<SpecInput> {
+  const content = await readFile(path.resolve(cwd, rootPath), 'utf8');
+  const externalFiles = Object.fromEntries(await Promise.all(
+    extraPaths.map(async p => [toPosix(path.relative(cwd, path.resolve(cwd, p))), await readFile(path.resolve(cwd, p), 'utf8')])
+  ));
+  return { content, fileName: toPosix(path.relative(cwd, path.resolve(cwd, rootPath))), externalFiles };
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
@@ -0,0 +1,48 @@
+import { createServer, IncomingHttpHeaders } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface MockLlmServer {
+  /** API root to use as the OpenAI-compatible provider's `baseUrl`. */
+  baseUrl: string;
+  /** Every chat completion request received, in order. */
+  requests: { headers: IncomingHttpHeaders; body: any }[];
+  close(): Promise<void>;
+}
+
+/**
+ * A local server implementing the OpenAI chat completions API with `stream: true`, for
+ * exercising the enhancement flow over HTTP. `answer` gets the user prompt and returns the
+ * reply, streamed back as server-sent events in small deltas; a number is sent as an HTTP error.
+ */
+export const startMockLlmServer = async (answer: (prompt: string) => string | number): Promise<MockLlmServer> => {
+  const requests: MockLlmServer['requests'] = [];
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+        res.writeHead(404).end('Not found');
+        return;
+      }
+      const body = JSON.parse(raw);
+      requests.push({ headers: req.headers, body });
+      const reply = answer(body.messages.find((m: any) => m.role === 'user')?.content || '');
+      if (typeof reply === 'number') {
+        res.writeHead(reply, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'mock failure' } }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (let i = 0; i < reply.length; i += 40) {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: reply.slice(i, i + 40) } }] })}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+};
@@ -0,0 +1,289 @@
+import { OpenAPISpec } from "../types";
+import { evaluatePointer } from "./refResolver";
+
+// Payload schema formats that are (a superset of) JSON Schema; others, e.g. Avro, are not rendered
+const JSON_SCHEMA_FORMAT = /^application\/(schema|vnd\.aai\.asyncapi)(\+json|\+yaml)?(;|$)/;
+
+/**
+ * Returns true for AsyncAPI 2.x and 3.x documents.
+ */
+export const isAsyncApi = (spec: any): boolean => typeof spec?.asyncapi === 'string';
+
+/**
+ * Converts an AsyncAPI document into the OpenAPI 3.0 structure so channels render like endpoints.
+ * Each channel is a path and each operation a `publish` (the client sends the message; it becomes
+ * the request body, and a 3.x reply the response) or `subscribe` (the client receives the messages;
+ * each becomes a response named after it). 2.x `publish`/`subscribe` already name the client's
+ * side; 3.x `send`/`receive` name the application's, so they swap.
+ */
+export const normalizeAsyncApi = (spec: any): OpenAPISpec => {
+  const isV3 = String(spec.asyncapi).startsWith('3');
+  const deref = (value: any) => derefLocal(spec, value);
+  const contentType: string = spec.defaultContentType || 'application/json';
+  const paths: Record<string, any> = {};
+
+  const addOperation = (address: string, channel: any, action: string, op: any, messages: any[], reply?: any[]) => {
+    const item = paths[address] || (paths[address] = convertChannel(channel, spec));
+    // A channel can only hold one operation per action here; later ones are dropped
+    if (item[action]) return;
+    item[action] = convertOperation(applyTraits(op, spec), action, messages.map(m => applyTraits(deref(m), spec)), contentType, reply, spec);
+  };
+
+  if (isV3) {
+    Object.entries(spec.operations || {}).forEach(([id, raw]) => {
+      const op: any = deref(raw);
+      const channel: any = deref(op?.channel);
+      if (!op || !channel) return;
+      const messages = Array.isArray(op.messages) && op.messages.length > 0 ? op.messages : Object.values(channel.messages || {});
+      const reply: any = deref(op.reply);
+      const replyChannel: any = deref(reply?.channel);
+      const replyMessages = reply ? (reply.messages || Object.values(replyChannel?.messages || {})).map((m: any) => applyTraits(deref(m), spec)) : undefined;
+      const channelId = String(op.channel.$ref || '').split('/').pop() || id;
+      addOperation(channel.address || channelId, channel, op.action === 'send' ? 'subscribe' : 'publish', { operationId: id, ...op }, messages, replyMessages);
+    });
+  } else {
+    Object.entries(spec.channels || {}).forEach(([address, raw]) => {
+      const channel: any = deref(raw);
+      ['publish', 'subscribe'].forEach(action => {
+        const op = channel?.[action];
+        if (!op) return;
+        const message: any = deref(op.message);
+        addOperation(address, channel, action, op, message?.oneOf || (message ? [message] : []));
+      });
+    });
+  }
+
+  const components: any = {};
+  if (spec.components?.schemas) components.schemas = spec.components.schemas;
+  if (spec.components?.securitySchemes) {
+    components.securitySchemes = mapValues(spec.components.securitySchemes, scheme => convertSecurityScheme(deref(scheme)));
+  }
+
+  const result: any = {
+    ...copyExtensions(spec),
+    openapi: '3.0.3',
+    info: spec.info,
+    paths,
+  };
+  const servers = Object.entries(spec.servers || {}).map(([name, raw]) => convertServer(name, deref(raw)));
+  if (servers.length > 0) result.servers = servers;
+  if (Object.keys(components).length > 0) result.components = components;
+  // Servers carry the security; the first one's applies to every operation without its own
+  const serverSecurity = (deref(Object.values(spec.servers || {})[0]) as any)?.security;
+  if (Array.isArray(serverSecurity)) result.security = convertSecurity(serverSecurity, isV3);
+  const tags = isV3 ? spec.info?.tags : spec.tags;
+  if (tags) result.tags = tags;
+  if (spec.externalDocs) result.externalDocs = spec.externalDocs;
+  result['x-original-asyncapi'] = spec.asyncapi;
+  return result;
+};
+
+function convertChannel(channel: any, spec: any): any {
+  const converted: any = copyExtensions(channel);
+  if (channel.summary || channel.title) converted.summary = channel.summary || channel.title;
+  if (channel.description) converted.description = channel.description;
+  const parameters = Object.entries(channel.parameters || {}).map(([name, raw]) => {
+    const param: any = derefLocal(spec, raw) || {};
+    // 3.x parameters are always strings and list their values directly
+    const schema = param.schema || {
+      type: 'string',
+      ...(param.enum ? { enum: param.enum } : {}),
+      ...(param.default !== undefined ? { default: param.default } : {}),
+    };
+    return {
+      name,
+      in: 'path',
+      required: true,
+      ...(param.description ? { description: param.description } : {}),
+      schema,
+      ...(param.examples?.length ? { example: param.examples[0] } : {}),
+    };
+  });
+  if (parameters.length > 0) converted.parameters = parameters;
+  return converted;
+}
+
+function convertOperation(op: any, action: string, messages: any[], contentType: string, reply: any[] | undefined, spec: any): any {
+  const isV3 = String(spec.asyncapi).startsWith('3');
+  const converted: any = copyExtensions(op);
+  if (op.operationId) converted.operationId = op.operationId;
+  if (op.summary || op.title) converted.summary = op.summary || op.title;
+  if (op.description) converted.description = op.description;
+  if (op.tags) converted.tags = op.tags.map((tag: any) => tag.name);
+  if (op.deprecated) converted.deprecated = true;
+  if (Array.isArray(op.security)) converted.security = convertSecurity(op.security, isV3);
+
+  if (action === 'publish') {
+    const headers = messageHeaders(messages, spec);
+    if (headers.length > 0) {
+      converted.parameters = headers.map(([name, schema, required]) => ({
+        name,
+        in: 'header',
+        required,
+        ...(schema.description ? { description: schema.description } : {}),
+        schema,
+      }));
+    }
+    if (messages.length > 0) {
+      const description = messages.length === 1 ? describeMessage(messages[0]) : undefined;
+      converted.requestBody = {
+        ...(description ? { description } : {}),
+        required: true,
+        content: messageContent(messages, contentType),
+      };
+    }
+    converted.responses = reply ? messageResponses(reply, contentType, spec) : {};
+  } else {
+    converted.responses = messageResponses(messages, contentType, spec);
+  }
+  return converted;
+}
+
+// One response per message, named after it, with its headers
+function messageResponses(messages: any[], contentType: string, spec: any): Record<string, any> {
+  const responses: Record<string, any> = {};
+  messages.forEach((message, i) => {
+    let name = message.name || message.messageId || `message${i + 1}`;
+    for (let n = 2; responses[name]; n++) name = `${message.name || 'message'}${n}`;
+    const headers = messageHeaders([message], spec);
+    responses[name] = {
+      description: describeMessage(message) || 'Message',
+      content: messageContent([message], contentType),
+      ...(headers.length > 0 ? {
+        headers: Object.fromEntries(headers.map(([header, schema, required]) => [header, {
+          ...(schema.description ? { description: schema.description } : {}),
+          ...(required ? { required: true } : {}),
+          schema,
+        }])),
+      } : {}),
+    };
+  });
+  return responses;
+}
+
+// Messages grouped by content type; several in one type become a `oneOf` titled with their names
+function messageContent(messages: any[], defaultType: string): Record<string, any> {
+  const byType = new Map<string, any[]>();
+  messages.forEach(message => {
+    const type = message.contentType || defaultType;
+    byType.set(type, [...(byType.get(type) || []), message]);
+  });
+  return Object.fromEntries(Array.from(byType.entries()).map(([type, list]) => {
+    const media: any = {};
+    if (list.length === 1) {
+      const schema = payloadSchema(list[0]);
+      if (schema) media.schema = schema;
+      const examples = (list[0].examples || []).filter((example: any) => example?.payload !== undefined);
+      if (examples.length > 0) {
+        media.examples = Object.fromEntries(examples.map((example: any, i: number) => [
+          example.name || `example${i + 1}`,
+          { ...(example.summary ? { summary: example.summary } : {}), value: example.payload },
+        ]));
+      }
+    } else {
+      media.schema = {
+        oneOf: list.map(message => {
+          const schema = payloadSchema(message) || {};
+          const title = message.title || message.name;
+          return title && !schema.$ref ? { title, ...schema } : schema;
+        }),
+      };
+    }
+    return [type, media];
+  }));
+}
+
+// The payload as JSON Schema; undefined when there is none or it is in another format
+function payloadSchema(message: any): any {
+  const payload = message.payload;
+  if (payloadFormat(message)) return undefined;
+  // 3.x wraps non-default formats in a multi-format schema object
+  return payload?.schemaFormat && payload.schema !== undefined ? payload.schema : payload;
+}
+
+// The payload's schema format when it is not JSON Schema, e.g. Avro
+function payloadFormat(message: any): string | undefined {
+  const format = message.payload?.schemaFormat || message.schemaFormat;
+  return format && !JSON_SCHEMA_FORMAT.test(format) ? format : undefined;
+}
+
+// [name, schema, required] for every header property of the messages, first declaration wins
+function messageHeaders(messages: any[], spec: any): [string, any, boolean][] {
+  const headers = new Map<string, [string, any, boolean]>();
+  messages.forEach(message => {
+    const schema: any = derefLocal(spec, message.headers);
+    Object.entries(schema?.properties || {}).forEach(([name, sub]) => {
+      if (!headers.has(name)) headers.set(name, [name, derefLocal(spec, sub) || {}, (schema.required || []).includes(name)]);
+    });
+  });
+  return Array.from(headers.values());
+}
+
+function describeMessage(message: any): string | undefined {
+  const heading = message.summary || message.title;
+  const format = payloadFormat(message);
+  const note = format && `The payload is described in the \`${format}\` schema format, which is not shown here.`;
+  // Response descriptions are shown on the response's line
+  return [heading, message.description, note].filter(Boolean).join(' ') || undefined;
+}
+
+// Traits are merged into the object; its own fields win
+function applyTraits(target: any, spec: any): any {
+  if (!target || !Array.isArray(target.traits)) return target;
+  const { traits, ...rest } = target;
+  return traits.reduce((merged: any, raw: any) => ({ ...derefLocal(spec, raw), ...merged }), rest);
+}
+
+function convertServer(name: string, server: any): any {
+  const protocol = server?.protocol;
+  // 2.x puts everything in `url`; 3.x splits it into host and pathname
+  const address = server?.host !== undefined ? `${server.host}${server.pathname || ''}` : String(server?.url || '');
+  const url = protocol && !address.includes('://') ? `${protocol}://${address}` : address;
+  const description = [name, server?.description].filter(Boolean).join(': ');
+  return {
+    url,
+    ...(description ? { description } : {}),
+    ...(server?.variables ? { variables: server.variables } : {}),
+  };
+}
+
+// 3.x lists references to the schemes, any one of which is enough; 2.x uses OpenAPI requirements
+function convertSecurity(security: any[], isV3: boolean): any[] {
+  if (!isV3) return security;
+  return security
+    .filter(entry => typeof entry?.$ref === 'string')
+    .map(entry => ({ [entry.$ref.split('/').pop()]: [] }));
+}
+
+function convertSecurityScheme(scheme: any): any {
+  if (!scheme) return scheme;
+  switch (scheme.type) {
+    case 'httpApiKey':
+      return { ...scheme, type: 'apiKey' };
+    case 'apiKey':
+      // Sent as the user name or password of the connection
+      return { ...scheme, name: scheme.in === 'password' ? 'password' : 'user' };
+    default:
+      return scheme;
+  }
+}
+
+function derefLocal(spec: any, value: any): any {
+  const seen = new Set<string>();
+  let current = value;
+  while (current && typeof current.$ref === 'string' && current.$ref.startsWith('#') && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    const target = evaluatePointer(spec, current.$ref.slice(1));
+    if (target === undefined) return current;
+    current = target;
+  }
+  return current;
+}
+
+function copyExtensions(source: any): any {
+  return Object.fromEntries(Object.entries(source || {}).filter(([key]) => key.startsWith('x-')));
+}
+
+function mapValues(source: Record<string, any>, fn: (value: any) => any): Record<string, any> {
+  return Object.fromEntries(Object.entries(source).map(([key, value]) => [key, fn(value)]));
+}
@@ -0,0 +1,354 @@
+import { ChangeKind, ChangeSeverity, OpenAPISpec, SpecChange } from "../types";
+import { collectOperations, OPERATION_METHODS, OperationEntry } from "./operationService";
+import { RefResolver } from "./refResolver";
+import { formatSchemaType, isHiddenFor, SchemaDirection } from "./schemaKeywords";
+
+/**
+ * One version of a spec, normalized and with its own resolver for `$ref`s.
+ */
+export interface SpecVersion {
+  spec: OpenAPISpec;
+  resolver: RefResolver;
+  /** Names the version in the header when both have the same `info.version`. */
+  fileName?: string;
+}
+
+/**
+ * What the changelog compares about a single parameter or schema field.
+ */
+interface FieldInfo {
+  type: string;
+  required: boolean;
+  format?: string;
+  enum?: any[];
+  deprecated?: boolean;
+}
+
+const KIND_TITLES: [ChangeKind, string][] = [
+  ['removed', 'Removed Endpoints'],
+  ['added', 'Added Endpoints'],
+  ['deprecated', 'Deprecated Endpoints'],
+  ['changed', 'Changed Endpoints'],
+];
+
+/**
+ * Compares two spec versions operation by operation, walking parameters, request bodies and
+ * responses the same way the llm.txt renderer does. Operations match by method and path, with
+ * path parameter names ignored so renaming `{id}` to `{petId}` is not a remove plus an add.
+ */
+export const diffSpecs = (previous: SpecVersion, current: SpecVersion): SpecChange[] => {
+  const changes: SpecChange[] = [];
+  const before = indexOperations(previous);
+  const after = indexOperations(current);
+  const keys = Array.from(new Set([...before.keys(), ...after.keys()])).sort(compareOperationKeys);
+
+  keys.forEach(key => {
+    const old = before.get(key);
+    const next = after.get(key);
+    if (!next) {
+      changes.push(change('breaking', 'removed', old!, 'Endpoint removed.'));
+      return;
+    }
+    if (!old) {
+      changes.push(change('non-breaking', 'added', next, 'Endpoint added.'));
+      return;
+    }
+    if (next.operation.deprecated && !old.operation.deprecated) {
+      changes.push(change('non-breaking', 'deprecated', next, 'Endpoint deprecated.'));
+    } else if (old.operation.deprecated && !next.operation.deprecated) {
+      changes.push(change('non-breaking', 'changed', next, 'Endpoint is no longer deprecated.'));
+    }
+    const push = (severity: ChangeSeverity, message: string) => changes.push(change(severity, 'changed', next, message));
+    diffParameters(old, next, previous.resolver, current.resolver, push);
+    diffRequestBody(old, next, previous.resolver, current.resolver, push);
+    diffResponses(old, next, previous.resolver, current.resolver, push);
+  });
+
+  return changes;
+};
+
+/**
+ * Renders the changes as a Markdown changelog an LLM can read next to the llm.txt.
+ * Output only depends on the two specs, so it can be committed and checked in CI.
+ */
+export const renderChangelog = (previous: SpecVersion, current: SpecVersion, changes: SpecChange[]): string => {
+  const lines: string[] = [];
+  const title = current.spec.info?.title || previous.spec.info?.title || 'API';
+  const breaking = changes.filter(c => c.severity === 'breaking').length;
+
+  lines.push(`# ${title} Changelog`);
+  lines.push(`Changes ${describeSpan(previous, current)}. Breaking changes may require client updates.`);
+  lines.push('');
+
+  if (changes.length === 0) {
+    lines.push('No changes to endpoints, parameters or schemas.');
+    return lines.join('\n');
+  }
+  lines.push(`**Summary:** ${changes.length} change${changes.length === 1 ? '' : 's'}, ${breaking} breaking and ${changes.length - breaking} non-breaking.`);
+  lines.push('');
+
+  KIND_TITLES.forEach(([kind, heading]) => {
+    const entries = changes.filter(c => c.kind === kind);
+    if (entries.length === 0) return;
+    lines.push(`## ${heading}`);
+    if (kind !== 'changed') {
+      entries.forEach(c => lines.push(`- ${flag(c.severity)} \`${c.operation}\`${c.summary ? ` - ${c.summary}` : ''}`));
+      lines.push('');
+      return;
+    }
+    lines.push('');
+    const operations = Array.from(new Set(entries.map(c => c.operation)));
+    operations.forEach(operation => {
+      const own = entries.filter(c => c.operation === operation);
+      lines.push(`### ${operation}${own[0].summary ? ` - ${own[0].summary}` : ''}`);
+      own.forEach(c => lines.push(`- ${flag(c.severity)} ${c.message}`));
+      lines.push('');
+    });
+  });
+
+  return lines.join('\n');
+};
+
+function flag(severity: ChangeSeverity): string {
+  return severity === 'breaking' ? '**[breaking]**' : '[non-breaking]';
+}
+
+function change(severity: ChangeSeverity, kind: ChangeKind, entry: OperationEntry, message: string): SpecChange {
+  const { operation } = entry;
+  return {
+    severity,
+    kind,
+    operation: `${entry.method.toUpperCase()} ${entry.path}`,
+    summary: operation.summary || operation.operationId || undefined,
+    message,
+  };
+}
+
+// "from version `1` to `2`"; versions that did not change are told apart by file name instead
+function describeSpan(previous: SpecVersion, current: SpecVersion): string {
+  const from = previous.spec.info?.version;
+  const to = current.spec.info?.version;
+  if (from !== to) return `from version \`${from || 'unknown'}\` to \`${to || 'unknown'}\``;
+  if (previous.fileName && current.fileName && previous.fileName !== current.fileName) {
+    return `from \`${previous.fileName}\` to \`${current.fileName}\`${from ? ` (both version \`${from}\`)` : ''}`;
+  }
+  return from ? `between two revisions of version \`${from}\`` : 'between the two versions';
+}
+
+function indexOperations({ spec, resolver }: SpecVersion): Map<string, OperationEntry> {
+  return new Map(collectOperations(spec, resolver).map(entry => [`${entry.path.replace(/\{[^}]+\}/g, '{}')} ${entry.method}`, entry]));
+}
+
+function compareOperationKeys(a: string, b: string): number {
+  const [pathA, methodA] = a.split(' ');
+  const [pathB, methodB] = b.split(' ');
+  if (pathA !== pathB) return pathA < pathB ? -1 : 1;
+  return OPERATION_METHODS.indexOf(methodA) - OPERATION_METHODS.indexOf(methodB);
+}
+
+type Report = (severity: ChangeSeverity, message: string) => void;
+
+function diffParameters(old: OperationEntry, next: OperationEntry, oldResolver: RefResolver, newResolver: RefResolver, push: Report) {
+  const before = collectParameters(old, oldResolver);
+  const after = collectParameters(next, newResolver);
+
+  before.forEach((param, key) => {
+    if (!after.has(key)) push('breaking', `Removed ${param.in} parameter \`${param.name}\`.`);
+  });
+  after.forEach((param, key) => {
+    const info = describeParameter(param, newResolver);
+    const previous = before.get(key);
+    if (!previous) {
+      push(info.required ? 'breaking' : 'non-breaking', `Added ${info.required ? 'required' : 'optional'} ${param.in} parameter \`${param.name}\`.`);
+      return;
+    }
+    diffField(describeParameter(previous, oldResolver), info, `${param.in} parameter \`${param.name}\``, 'request', push);
+  });
+}
+
+// Path-level parameters apply to every operation; the operation's own win on the same name + location.
+// Path parameters are keyed by their position in the template so renames are not reported.
+function collectParameters({ path, operation, pathItem }: OperationEntry, resolver: RefResolver): Map<string, any> {
+  const templated = Array.from(path.matchAll(/\{([^}]+)\}/g)).map(m => m[1]);
+  const params = new Map<string, any>();
+  [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach(raw => {
+    const param = resolver.deref(raw);
+    if (!param?.name || !param.in) return;
+    const position = param.in === 'path' ? templated.indexOf(param.name) : -1;
+    params.set(position >= 0 ? `path #${position}` : `${param.in} ${param.name}`, param);
+  });
+  return params;
+}
+
+function describeParameter(param: any, resolver: RefResolver): FieldInfo {
+  const schema = resolver.deref(param.schema) || {};
+  return {
+    type: formatSchemaType(schema, param.type || 'any'),
+    required: param.in === 'path' || !!param.required,
+    format: schema.format,
+    enum: schema.enum,
+    deprecated: !!param.deprecated,
+  };
+}
+
+function diffRequestBody(old: OperationEntry, next: OperationEntry, oldResolver: RefResolver, newResolver: RefResolver, push: Report) {
+  const before = oldResolver.deref(old.operation.requestBody);
+  const after = newResolver.deref(next.operation.requestBody);
+  if (!before && !after) return;
+  if (!after) {
+    push('breaking', 'Removed the request body.');
+    return;
+  }
+  if (!before) {
+    push(after.required ? 'breaking' : 'non-breaking', `Added ${after.required ? 'a required' : 'an optional'} request body.`);
+    return;
+  }
+  if (after.required && !before.required) push('breaking', 'The request body is now required.');
+  if (!after.required && before.required) push('non-breaking', 'The request body is now optional.');
+  diffContent(before.content, after.content, oldResolver, newResolver, 'request', 'request', push);
+}
+
+function diffResponses(old: OperationEntry, next: OperationEntry, oldResolver: RefResolver, newResolver: RefResolver, push: Report) {
+  const before = old.operation.responses || {};
+  const after = next.operation.responses || {};
+  Object.keys(before).forEach(code => {
+    if (!(code in after)) push('breaking', `Removed response \`${code}\`.`);
+  });
+  Object.keys(after).forEach(code => {
+    if (!(code in before)) {
+      push('non-breaking', `Added response \`${code}\`.`);
+      return;
+    }
+    const oldResponse = oldResolver.deref(before[code]) || {};
+    const newResponse = newResolver.deref(after[code]) || {};
+    diffContent(oldResponse.content, newResponse.content, oldResolver, newResolver, 'response', `response \`${code}\``, push);
+  });
+}
+
+function diffContent(before: any = {}, after: any = {}, oldResolver: RefResolver, newResolver: RefResolver, direction: SchemaDirection, label: string, push: Report) {
+  // For requests the server stops accepting a removed type; for responses clients may stop getting one they parse
+  Object.keys(before).forEach(type => {
+    if (!(type in after)) push('breaking', `Removed content type \`${type}\` from the ${label}.`);
+  });
+  Object.keys(after).forEach(type => {
+    if (!(type in before)) push(direction === 'request' ? 'non-breaking' : 'breaking', `Added content type \`${type}\` to the ${label}.`);
+  });
+
+  const type = primaryMediaType(after);
+  if (!type || !before[type]?.schema) return;
+  const oldFields = flattenSchema(before[type].schema, oldResolver, direction);
+  const newFields = flattenSchema(after[type].schema, newResolver, direction);
+  const where = `${label} field`;
+
+  oldFields.forEach((_, path) => {
+    if (!newFields.has(path)) push('breaking', `Removed ${where} \`${path}\`.`);
+  });
+  newFields.forEach((info, path) => {
+    const previous = oldFields.get(path);
+    if (previous) {
+      diffField(previous, info, `${where} \`${path}\``, direction, push);
+    } else if (direction === 'request') {
+      push(info.required ? 'breaking' : 'non-breaking', `Added ${info.required ? 'required' : 'optional'} request field \`${path}\`.`);
+    } else {
+      push('non-breaking', `Added ${where} \`${path}\`.`);
+    }
+  });
+}
+
+/**
+ * Compares one parameter or field. Tightening what a request accepts, or loosening what a
+ * response guarantees, is breaking; the opposite directions are not.
+ */
+function diffField(before: FieldInfo, after: FieldInfo, label: string, direction: SchemaDirection, push: Report) {
+  const isRequest = direction === 'request';
+  if (before.type !== after.type) push('breaking', `Type of ${label} changed from \`${before.type}\` to \`${after.type}\`.`);
+  if (before.format !== after.format) {
+    push('breaking', `Format of ${label} changed from \`${before.format || 'none'}\` to \`${after.format || 'none'}\`.`);
+  }
+  if (after.required && !before.required) push(isRequest ? 'breaking' : 'non-breaking', `${capitalize(label)} is now required.`);
+  if (!after.required && before.required) push(isRequest ? 'non-breaking' : 'breaking', `${capitalize(label)} is now optional.`);
+
+  if (before.enum || after.enum) {
+    if (!after.enum) {
+      push(isRequest ? 'non-breaking' : 'breaking', `${capitalize(label)} no longer restricts values to an enum.`);
+    } else if (!before.enum) {
+      push(isRequest ? 'breaking' : 'non-breaking', `${capitalize(label)} is now restricted to ${formatValues(after.enum)}.`);
+    } else {
+      const removed = before.enum.filter(v => !after.enum!.some(w => JSON.stringify(w) === JSON.stringify(v)));
+      const added = after.enum.filter(v => !before.enum!.some(w => JSON.stringify(w) === JSON.stringify(v)));
+      if (removed.length > 0) push(isRequest ? 'breaking' : 'non-breaking', `Removed enum value${removed.length === 1 ? '' : 's'} ${formatValues(removed)} from ${label}.`);
+      if (added.length > 0) push(isRequest ? 'non-breaking' : 'breaking', `Added enum value${added.length === 1 ? '' : 's'} ${formatValues(added)} to ${label}.`);
+    }
+  }
+  if (after.deprecated && !before.deprecated) push('non-breaking', `${capitalize(label)} is deprecated.`);
+}
+
+/**
+ * Flattens a schema into dotted field paths (`items[].name`) with what the changelog compares.
+ * `allOf` parts and `oneOf`/`anyOf` variants are folded into the same paths; cycles stop at the repeated ref.
+ */
+function flattenSchema(schema: any, resolver: RefResolver, direction: SchemaDirection): Map<string, FieldInfo> {
+  const fields = new Map<string, FieldInfo>();
+
+  const record = (path: string, info: FieldInfo) => {
+    const existing = fields.get(path);
+    if (!existing) {
+      fields.set(path, info);
+      return;
+    }
+    existing.required = existing.required || info.required;
+    if (existing.type === 'any') existing.type = info.type;
+    existing.format = existing.format || info.format;
+    existing.enum = existing.enum || info.enum;
+  };
+
+  const walk = (node: any, path: string, required: boolean, seen: string[]) => {
+    // 3.1 boolean schemas: `true` allows any value, `false` none
+    if (typeof node === 'boolean') {
+      if (path) record(path, { type: node ? 'any' : 'never', required, deprecated: false });
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+    if (node.$ref) {
+      const target = resolver.resolve(node.$ref, node);
+      if (target && !seen.includes(target.key)) walk(target.value, path, required, [...seen, target.key]);
+      return;
+    }
+    if (path) {
+      record(path, {
+        type: formatSchemaType(node, 'any'),
+        required,
+        format: node.format,
+        enum: node.enum,
+        deprecated: !!node.deprecated,
+      });
+    }
+    [...(node.allOf || []), ...(node.oneOf || []), ...(node.anyOf || [])].forEach((sub: any) => walk(sub, path, required, seen));
+
+    const requiredNames: string[] = node.required || [];
+    Object.entries(node.properties || {}).forEach(([name, prop]: [string, any]) => {
+      if (isHiddenFor(resolver.deref(prop), direction)) return;
+      walk(prop, path ? `${path}.${name}` : name, requiredNames.includes(name), seen);
+    });
+    if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+      walk(node.additionalProperties, path ? `${path}.*` : '*', false, seen);
+    }
+    if (node.items) walk(node.items, `${path}[]`, true, seen);
+  };
+
+  walk(schema, '', true, []);
+  return fields;
+}
+
+function primaryMediaType(content: any): string | undefined {
+  return ['application/json', '*/*'].find(type => content[type]?.schema)
+    || Object.keys(content).find(type => content[type]?.schema);
+}
+
+function formatValues(values: any[]): string {
+  return values.map(v => `\`${JSON.stringify(v)}\``).join(', ');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
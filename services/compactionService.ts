@@ -0,0 +1,78 @@
+import { CompactionEntry, CompactionStep } from "../types";
+
+/**
+ * Steps in the order they are applied: each one trades more detail for size than the last.
+ */
+export const COMPACTION_STEPS: CompactionStep[] = ['examples', 'schemas', 'descriptions', 'deprecated'];
+
+export const MAX_DESCRIPTION_LENGTH = 200;
+
+const STEP_MESSAGES: Record<CompactionStep, (count: number) => string> = {
+  examples: count => `Removed full request and response examples from ${plural(count, 'operation')}.`,
+  schemas: count => `Moved ${plural(count, 'shared schema')} into the Schemas section; fields that use them reference them by name.`,
+  descriptions: count => `Truncated ${plural(count, 'description')} to ${MAX_DESCRIPTION_LENGTH} characters.`,
+  deprecated: count => `Omitted ${plural(count, 'deprecated operation')}.`,
+};
+
+/**
+ * The compaction steps enabled for one render, and a record of everything they affected.
+ */
+export interface Compaction {
+  steps: CompactionStep[];
+  affected: Record<CompactionStep, string[]>;
+  /** Where the renderer currently is (operation or schema), used to label truncated descriptions. */
+  location: string;
+}
+
+export const createCompaction = (steps: CompactionStep[] = []): Compaction => ({
+  steps,
+  affected: { examples: [], schemas: [], descriptions: [], deprecated: [] },
+  location: '',
+});
+
+export const isEnabled = (compaction: Compaction, step: CompactionStep): boolean => compaction.steps.includes(step);
+
+export const recordAffected = (compaction: Compaction, step: CompactionStep, item: string) => {
+  if (!compaction.affected[step].includes(item)) compaction.affected[step].push(item);
+};
+
+/**
+ * Shortens a description once the `descriptions` step is enabled: to its first sentence when that
+ * fits, otherwise to the last whole word within the limit. `label` names it in the report.
+ */
+export const truncateDescription = (compaction: Compaction, text: string | undefined, label: string): string | undefined => {
+  if (!text || !isEnabled(compaction, 'descriptions') || text.length <= MAX_DESCRIPTION_LENGTH) return text;
+  recordAffected(compaction, 'descriptions', compaction.location ? `${compaction.location}: ${label}` : label);
+  const sentence = /^[\s\S]*?[.!?](?=\s)/.exec(text)?.[0];
+  if (sentence && sentence.length <= MAX_DESCRIPTION_LENGTH) return `${sentence} …`;
+  const cut = text.slice(0, MAX_DESCRIPTION_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length).trimEnd()} …`;
+};
+
+/**
+ * Summarizes what the applied steps changed, one entry per step that affected anything.
+ */
+export const getCompactionReport = (compaction: Compaction): CompactionEntry[] =>
+  compaction.steps
+    .filter(step => compaction.affected[step].length > 0)
+    .map(step => ({ step, message: STEP_MESSAGES[step](compaction.affected[step].length), items: compaction.affected[step] }));
+
+/**
+ * Appends an "Omitted Content" section so the reader knows the document is not complete.
+ * Deprecated operations are listed by name since they cannot be found anywhere else.
+ */
+export const renderOmittedContent = (compaction: Compaction, lines: string[]) => {
+  const report = getCompactionReport(compaction).filter(entry => entry.step !== 'schemas');
+  if (report.length === 0) return;
+  lines.push('## Omitted Content');
+  lines.push('This document was shortened to fit a size budget:');
+  report.forEach(entry => {
+    lines.push(`- ${entry.message}`);
+    if (entry.step === 'deprecated') entry.items.forEach(item => lines.push(`  - \`${item}\``));
+  });
+  lines.push('');
+};
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
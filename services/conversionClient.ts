@@ -0,0 +1,86 @@
+import { ConversionOptions, ConversionProgress, ConversionResult, OperationSummary, ServerSummary } from "../types";
+import { localConvertAndList } from "./conversionService";
+
+/** Sent to the worker: one conversion per worker. */
+export interface WorkerRequest {
+  content: string;
+  options: ConversionOptions;
+}
+
+/** Sent back by the worker: progress while rendering, then the result or the error. */
+export type WorkerMessage =
+  | { type: 'progress'; progress: ConversionProgress }
+  | { type: 'done'; result: ConversionResult; operations: OperationSummary[]; servers: ServerSummary[] }
+  | { type: 'error'; message: string };
+
+export interface ConversionOutput {
+  result: ConversionResult;
+  /** Every operation of the spec, for the filter panel. */
+  operations: OperationSummary[];
+  /** The spec's top-level servers, for the environment picker. */
+  servers: ServerSummary[];
+}
+
+export interface ConversionJob {
+  /** Settles with the output, rejects with the conversion error, and never settles once cancelled. */
+  promise: Promise<ConversionOutput>;
+  cancel(): void;
+}
+
+/**
+ * Converts a spec off the main thread so large specs do not freeze the page. Each job gets its own
+ * worker, and cancelling terminates it mid-conversion. Where no worker can run (no Worker support,
+ * or the worker script fails to load) the conversion runs inline and cannot be stopped once started.
+ */
+export const convertInWorker = (
+  request: WorkerRequest,
+  onProgress: (progress: ConversionProgress) => void = () => {}
+): ConversionJob => {
+  let cancelled = false;
+  let worker: Worker | null = null;
+  const promise = new Promise<ConversionOutput>((resolve, reject) => {
+    const runInline = () => {
+      // Let the caller paint its loading state first
+      setTimeout(() => {
+        if (cancelled) return;
+        try {
+          const output = localConvertAndList(request.content, request.options, onProgress);
+          if (!cancelled) resolve(output);
+        } catch (e) {
+          if (!cancelled) reject(e);
+        }
+      }, 0);
+    };
+    if (typeof Worker === 'undefined') {
+      runInline();
+      return;
+    }
+
+    const started = new Worker(new URL('./conversionWorker.ts', import.meta.url), { type: 'module' });
+    worker = started;
+    started.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      started.terminate();
+      if (message.type === 'done') resolve({ result: message.result, operations: message.operations, servers: message.servers });
+      else reject(new Error(message.message));
+    };
+    // Conversion errors arrive as messages, so this is the worker itself failing to load or run
+    started.onerror = event => {
+      event.preventDefault();
+      started.terminate();
+      runInline();
+    };
+    started.postMessage(request);
+  });
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      worker?.terminate();
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { localConvert, localConvertAndList, localConvertToLlmTxt, localListOperations, localListServers } from './conversionService';
+
+const specWith = (schema: any) => JSON.stringify({
+  openapi: '3.1.0',
+  info: { title: 'Enums', version: '1' },
+  paths: {
+    '/sort': {
+      get: {
+        responses: { '200': { description: 'The order', content: { 'application/json': { schema } } } },
+      },
+    },
+  },
+});
+
+describe('enum-only schemas', () => {
+  it('renders a root schema with its type read from the values', () => {
+    const output = localConvertToLlmTxt(specWith({ enum: ['asc', 'desc'] }));
+    expect(output).toContain('**Response 200: The order**\n  - (`string`, enum: [`"asc"`, `"desc"`])');
+  });
+
+  it('renders array items with their type read from the values', () => {
+    const output = localConvertToLlmTxt(specWith({ type: 'array', items: { enum: [1, 2, null] } }));
+    expect(output).toContain('  - `Array` (array)\n    - (`integer | null`, enum: [`1`, `2`, `null`])');
+  });
+});
+
+describe('localConvertAndList', () => {
+  it('matches converting and listing separately', () => {
+    const petstore = readFileSync(new URL('./__fixtures__/petstore.yaml', import.meta.url), 'utf8');
+    const options = { fileName: 'petstore.yaml', filter: { includeTags: ['pets'], excludeDeprecated: true } };
+    expect(localConvertAndList(petstore, options)).toEqual({
+      result: localConvert(petstore, options),
+      operations: localListOperations(petstore, options),
+      servers: localListServers(petstore, options),
+    });
+  });
+});
+
+describe('multipart file arrays', () => {
+  it('sends one file part per element of an array of binary items', () => {
+    const spec = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Uploads', version: '1' },
+      servers: [{ url: 'https://api.example.com' }],
+      paths: {
+        '/photos': {
+          post: {
+            requestBody: {
+              content: {
+                'multipart/form-data': {
+                  schema: { type: 'object', required: ['photos'], properties: { photos: { type: 'array', minItems: 2, items: { type: 'string', format: 'binary' } } } },
+                },
+              },
+            },
+            responses: { '204': { description: 'Stored' } },
+          },
+        },
+      },
+    });
+    const output = localConvertToLlmTxt(spec, { snippetLanguages: ['curl', 'python'] });
+    const filePart = 'Content-Disposition: form-data; name="photos"; filename="photos.bin"\nContent-Type: application/octet-stream\n\n<file content>';
+    expect(output).toContain(`--boundary\n${filePart}\n--boundary\n${filePart}\n--boundary--`);
+    expect(output).toContain("--form photos=@photos.bin \\\n  --form photos=@photos.bin");
+    expect(output).toContain('files=[("photos", open("photos.bin", "rb")), ("photos", open("photos.bin", "rb"))]');
+  });
+});
@@ -1,319 +1,1229 @@
 
-import { OpenAPISpec } from "../types";
+import { ApiDocument, ConversionOptions, ConversionProgress, ConversionResult, ExampleTemplateContext, FieldTemplateContext, HeaderTemplateContext, OpenAPISpec, OperationFilter, OperationSummary, OperationTemplateContext, OutputFile, ParameterTemplateContext, ServerSummary, SnippetLanguage, TemplateSlot, TokenReport } from "../types";
+import { isJsonSchemaDocument, parseSpecContent } from "./specParser";
+import { normalizeSpec } from "./swaggerNormalizer";
+import { createRefResolver, evaluatePointer, parsePointer, RefResolver, ResolvedRef, toPointer } from "./refResolver";
+import { collectOperations, groupOperationsByTag, HTTP_METHODS, OperationEntry, UNTAGGED_GROUP, uniqueSlug } from "./operationService";
+import { describeSecurity, getAuthPlaceholders, getEffectiveSecurity, renderAuthenticationSection, SecurityRequirement } from "./securityService";
+import { resolveSnippetGenerators, SnippetRequest } from "./snippetService";
+import { validateSpec } from "./diagnosticsService";
+import { diffSpecs, renderChangelog } from "./changelogService";
+import { generateExample, getDeclaredExample } from "./exampleGenerator";
+import { validateValue } from "./schemaValidator";
+import { COMPACTION_STEPS, Compaction, createCompaction, getCompactionReport, isEnabled, recordAffected, renderOmittedContent, truncateDescription } from "./compactionService";
+import { estimateTokens, measureSections } from "./tokenService";
+import { describeConstraints, formatSchemaMetadata, formatSchemaType, getSchemaTypes, hasSchemaType, isHiddenFor, SchemaDirection } from "./schemaKeywords";
+import { filterOperations, matchesFilterRules, operationName } from "./operationFilter";
+import { formatSerialized, getOperationParameters, getParameterMediaType, getParameterSchema, getParameterStyle, serializeParameter } from "./parameterService";
+import { formatExample, getMediaKind, groupMediaTypes, isFileField, MEDIA_FENCES, pickMediaType } from "./mediaTypeService";
+import { buildApiDocument } from "./documentModel";
+import { getEffectiveServers, hasOwnServers, listServers, pushServerList, renderServersSection, resolveBaseUrl, ServerOptions, validateServerOptions } from "./serverService";
+import { compileTemplates } from "./templateService";
+import { Template } from "./templateEngine";
+import { getOutputRenderer } from "./outputRenderers";
+import { extractSourceMap, indexSourcePointers, sourceMark } from "./sourceMapService";
+import { collectSchemaUsage, countFields, DEFAULT_SHARED_SCHEMA_MIN_FIELDS, DEFAULT_SHARED_SCHEMA_MIN_USES, isComponentSchema, operationAnchor, schemaAnchor } from "./schemaUsageService";
+
+// Split mode puts webhooks in their own file next to the index
+const WEBHOOKS_FILE = 'webhooks.md';
+
+/**
+ * Local conversion logic for OpenAPI (or bare JSON Schema) JSON or YAML to llm.txt format.
+ */
+export const localConvertToLlmTxt = (content: string, options: ConversionOptions = {}): string => {
+  const ctx = createRenderContext(content, options);
+  return renderWithinBudget(ctx, options, () => [{ path: 'llm.txt', content: renderLlmTxt(ctx, options) }])[0].content;
+};
+
+/**
+ * Converts a spec into one or more output files. In `split` mode this is an `llms.txt`
+ * index (per https://llmstxt.org/) plus one detail Markdown file per tag; otherwise a single `llm.txt`.
+ * Other `format`s are rendered from the document model instead.
+ */
+export const localConvertToFiles = (content: string, options: ConversionOptions = {}): OutputFile[] =>
+  renderFiles(createRenderContext(content, options), options);
+
+/**
+ * Converts a spec and validates it in one pass. Parse errors still throw; everything
+ * else that is wrong with the spec, or with the server options, is returned as diagnostics
+ * next to the output, together with token estimates and what was compacted to meet `tokenBudget`.
+ * `onProgress` is called as operations are rendered (again from zero for each compaction pass).
+ */
+export const localConvert = (content: string, options: ConversionOptions = {}, onProgress?: (progress: ConversionProgress) => void): ConversionResult =>
+  convertContext(createRenderContext(content, options), options, onProgress);
+
+/**
+ * `localConvert` plus `localListOperations` and `localListServers` for the web app's panels,
+ * parsing the spec once for all three.
+ */
+export const localConvertAndList = (
+  content: string,
+  options: ConversionOptions = {},
+  onProgress?: (progress: ConversionProgress) => void
+): { result: ConversionResult; operations: OperationSummary[]; servers: ServerSummary[] } => {
+  const ctx = createRenderContext(content, options);
+  return {
+    result: convertContext(ctx, options, onProgress),
+    operations: listContextOperations(ctx, options),
+    servers: listServers((ctx.spec as any).servers),
+  };
+};
+
+/**
+ * Parses a spec into the typed document model (the operations the `filter` option keeps)
+ * that the non-Markdown output formats are rendered from.
+ */
+export const localBuildDocument = (content: string, options: ConversionOptions = {}): ApiDocument =>
+  buildDocument(createRenderContext(content, options));
+
+/**
+ * Compares two versions of a spec and renders a Markdown changelog flagging breaking changes.
+ * Each side takes its own `fileName`/`externalFiles`; rendering options do not apply.
+ */
+export const localConvertToChangelog = (
+  previous: string,
+  current: string,
+  previousOptions: ConversionOptions = {},
+  currentOptions: ConversionOptions = {}
+): string => {
+  const before = createRenderContext(previous, previousOptions);
+  const after = createRenderContext(current, currentOptions);
+  return renderChangelog(
+    { ...before, fileName: previousOptions.fileName },
+    { ...after, fileName: currentOptions.fileName },
+    diffSpecs(before, after)
+  );
+};
 
 /**
- * Local conversion logic for OpenAPI JSON to llm.txt format.
+ * Lists every operation of a spec in output order, marking those the `filter` option's rules keep.
  */
-export const localConvertToLlmTxt = (jsonContent: string): string => {
-  let spec: OpenAPISpec;
-  try {
-    spec = JSON.parse(jsonContent);
-  } catch (e) {
-    throw new Error("Invalid JSON format");
+export const localListOperations = (content: string, options: ConversionOptions = {}): OperationSummary[] =>
+  listContextOperations(createRenderContext(content, options), options);
+
+/**
+ * Lists the spec's top-level servers with their variables, for picking the one usage snippets call.
+ */
+export const localListServers = (content: string, options: ConversionOptions = {}): ServerSummary[] =>
+  listServers((createRenderContext(content, options).spec as any).servers);
+
+function convertContext(ctx: RenderContext, options: ConversionOptions, onProgress?: (progress: ConversionProgress) => void): ConversionResult {
+  ctx.onProgress = onProgress;
+  const files = renderFiles(ctx, options);
+  return {
+    files,
+    diagnostics: [...validateServerOptions((ctx.spec as any).servers, ctx.servers), ...validateSpec(ctx.spec, ctx.resolver, ctx.exampleSeed)],
+    tokens: getTokenReport(files, ctx.compaction, options.tokenBudget),
+  };
+}
+
+function listContextOperations({ spec, resolver }: RenderContext, options: ConversionOptions): OperationSummary[] {
+  const groups = groupOperationsByTag(spec, collectOperations(spec, resolver));
+  return groups.flatMap(group => group.operations.map(entry => ({
+    name: operationName(entry),
+    method: entry.method,
+    path: entry.path,
+    summary: entry.operation.summary,
+    tags: entry.operation.tags || [],
+    group: group.name,
+    deprecated: !!entry.operation.deprecated,
+    matched: matchesFilterRules(entry, options.filter),
+  })));
+}
+
+/**
+ * Renders with no compaction first, then enables one more compaction step at a time
+ * until every file fits the budget or all steps are used.
+ */
+function renderWithinBudget(ctx: RenderContext, options: ConversionOptions, render: () => OutputFile[]): OutputFile[] {
+  const budget = options.tokenBudget;
+  for (let applied = 0; ; applied++) {
+    ctx.compaction = createCompaction(COMPACTION_STEPS.slice(0, applied));
+    const files = render().map(extractSourceMap);
+    const fits = !budget || files.every(file => estimateTokens(file.content) <= budget);
+    if (fits || applied === COMPACTION_STEPS.length) return files;
+  }
+}
+
+function getTokenReport(files: OutputFile[], compaction: Compaction, budget?: number): TokenReport {
+  const measured = files.map(file => ({ path: file.path, tokens: estimateTokens(file.content), sections: measureSections(file.content) }));
+  return {
+    budget,
+    files: measured,
+    compaction: getCompactionReport(compaction),
+    overBudget: budget !== undefined && measured.some(file => file.tokens > budget),
+  };
+}
+
+function renderLlmTxt(ctx: RenderContext, options: ConversionOptions): string {
+  if (isJsonSchemaDocument(ctx.spec)) return renderJsonSchemaDocument(ctx);
+  const lines: string[] = [];
+  const operations = visibleOperations(ctx);
+  const webhooks = visibleWebhooks(ctx);
+  ctx.progress = { done: 0, total: operations.length + webhooks.length };
+  ctx.schemaUsage = collectSchemaUsage([...operations, ...webhooks], ctx.resolver);
+  ctx.operationFiles.clear();
+  ctx.sharedSchemas.clear();
+
+  renderDocumentHeader(ctx, lines, operations);
+
+  if (options.outputMode === 'grouped' || options.outputMode === 'split') {
+    groupOperationsByTag(ctx.spec, operations).forEach(group => {
+      lines.push(`## ${group.name}`);
+      const description = truncateDescription(ctx.compaction, group.description, `tag \`${group.name}\``);
+      if (description) lines.push(description);
+      lines.push('');
+      group.operations.forEach(entry => renderOperation(entry, ctx, lines));
+    });
+  } else {
+    // Endpoints Section
+    lines.push('## Endpoints');
+    lines.push('');
+    operations.forEach(entry => renderOperation(entry, ctx, lines));
+  }
+
+  renderWebhooks(webhooks, ctx, lines);
+  renderSharedSchemas(ctx, lines);
+  renderOmittedContent(ctx.compaction, lines);
+  return lines.join('\n');
+}
+
+function renderFiles(ctx: RenderContext, options: ConversionOptions): OutputFile[] {
+  if (options.format && options.format !== 'llm-txt') return getOutputRenderer(options.format).render(buildDocument(ctx));
+  return renderWithinBudget(ctx, options, () => renderOutputFiles(ctx, options));
+}
+
+function buildDocument(ctx: RenderContext): ApiDocument {
+  if (isJsonSchemaDocument(ctx.spec)) throw new Error('JSON Schema documents have no operations and only convert to llm-txt.');
+  const { spec, resolver, servers, exampleSeed } = ctx;
+  const operations = visibleOperations(ctx);
+  ctx.progress = { done: 0, total: operations.length };
+  return buildApiDocument({ spec, resolver, servers, exampleSeed, operations, onOperation: () => advanceProgress(ctx) });
+}
+
+function advanceProgress(ctx: RenderContext) {
+  ctx.progress.done++;
+  ctx.onProgress?.({ ...ctx.progress });
+}
+
+function renderOutputFiles(ctx: RenderContext, options: ConversionOptions): OutputFile[] {
+  // A JSON Schema document has no tags to split by
+  if (options.outputMode !== 'split' || isJsonSchemaDocument(ctx.spec)) {
+    return [{ path: 'llm.txt', content: renderLlmTxt(ctx, options) }];
   }
 
+  const title = ctx.spec.info?.title || 'API Documentation';
+  const operations = visibleOperations(ctx);
+  const webhooks = visibleWebhooks(ctx);
+  ctx.progress = { done: 0, total: operations.length + webhooks.length };
+  const groups = groupOperationsByTag(ctx.spec, operations);
+  const usedNames = new Set<string>();
+  const paths = groups.map(group => `tags/${uniqueSlug(group.name, usedNames)}.md`);
+  const files: OutputFile[] = [];
+
+  // Schemas list the operations that use them, which may live in other files
+  ctx.schemaUsage = collectSchemaUsage([...operations, ...webhooks], ctx.resolver);
+  ctx.operationFiles.clear();
+  groups.forEach((group, i) => group.operations.forEach(({ path, method }) => {
+    ctx.operationFiles.set(`${method.toUpperCase()} ${path}`, paths[i]);
+  }));
+  webhooks.forEach(({ path, method }) => ctx.operationFiles.set(`${method.toUpperCase()} ${path}`, WEBHOOKS_FILE));
+
+  const index: string[] = [];
+  index.push(`# ${title}`);
+  index.push('');
+  index.push(`> ${(ctx.spec.info?.description || 'No description provided.').split('\n')[0]}`);
+  index.push('');
+  renderServersSection(ctx.spec, index, hasSnippets(operations) ? ctx.baseUrl : undefined);
+  renderAuthenticationSection(ctx.spec, ctx.resolver, index);
+  index.push('## Endpoints');
+  index.push('');
+
+  groups.forEach((group, i) => {
+    const path = paths[i];
+    const count = `${group.operations.length} operation${group.operations.length === 1 ? '' : 's'}`;
+    index.push(`- [${group.name}](${path}): ${group.description ? `${group.description.split('\n')[0]} (${count})` : count}`);
+
+    const lines: string[] = [];
+    ctx.currentFile = path;
+    ctx.sharedSchemas.clear();
+    lines.push(`# ${title}: ${group.name}`);
+    lines.push(truncateDescription(ctx.compaction, group.description, `tag \`${group.name}\``)
+      || (group.name === UNTAGGED_GROUP ? 'Endpoints without a tag.' : `Endpoints tagged \`${group.name}\`.`));
+    lines.push('');
+    lines.push('## Endpoints');
+    lines.push('');
+    group.operations.forEach(entry => renderOperation(entry, ctx, lines));
+    renderSharedSchemas(ctx, lines);
+    files.push({ path, content: lines.join('\n') });
+  });
+  index.push('');
+
+  if (webhooks.length > 0) {
+    index.push('## Webhooks');
+    index.push('');
+    index.push(`- [Webhooks](${WEBHOOKS_FILE}): ${webhooks.length} webhook${webhooks.length === 1 ? '' : 's'}`);
+    index.push('');
+
+    const lines: string[] = [];
+    ctx.currentFile = WEBHOOKS_FILE;
+    ctx.sharedSchemas.clear();
+    lines.push(`# ${title}: Webhooks`);
+    lines.push('');
+    renderWebhooks(webhooks, ctx, lines);
+    renderSharedSchemas(ctx, lines);
+    files.push({ path: WEBHOOKS_FILE, content: lines.join('\n') });
+  }
+  renderOmittedContent(ctx.compaction, index);
+
+  return [{ path: 'llms.txt', content: index.join('\n') }, ...files];
+}
+
+interface RenderContext {
+  spec: OpenAPISpec;
+  resolver: RefResolver;
+  /** Picks the server of each operation's usage snippets. */
+  servers: ServerOptions;
+  /** Base URL of operations that declare no servers of their own. */
+  baseUrl: string;
+  hasSecurity: boolean;
+  /** Compiled templates of the llm.txt layout, the defaults unless overridden. */
+  templates: Record<TemplateSlot, Template>;
+  snippetLanguages?: SnippetLanguage[];
+  maxSchemaDepth?: number;
+  exampleSeed?: number;
+  filter?: OperationFilter;
+  compaction: Compaction;
+  /** Thresholds for sharing component schemas; unset unless the `sharedSchemas` option is on. */
+  sharing?: { minUses: number; minFields: number };
+  /** Schemas referenced from the file being rendered, in order of first use. */
+  sharedSchemas: Map<string, ResolvedRef>;
+  /** Heading of the section shared schemas are described in, named in the links to it. */
+  schemaSection: string;
+  /** Operations (`METHOD /path`) using each component schema, by ref key. */
+  schemaUsage: Map<string, string[]>;
+  /** Output file of each operation in split mode, so links can cross files. */
+  operationFiles: Map<string, string>;
+  currentFile: string;
+  /** The spec as written and where each of its objects is, when the `sourceMap` option is on. */
+  sourceMap?: { source: any; pointers: WeakMap<object, string> };
+  /** Operations and webhooks rendered in the current pass, reported through `onProgress`. */
+  progress: ConversionProgress;
+  onProgress?: (progress: ConversionProgress) => void;
+}
+
+function createRenderContext(content: string, options: ConversionOptions): RenderContext {
+  const source = parseSpecContent(content);
+  const spec: OpenAPISpec = normalizeSpec(source);
+  const resolver = createRefResolver(spec, parseExternalFiles(options.externalFiles), options.fileName);
+  const servers: ServerOptions = {
+    serverIndex: options.serverIndex,
+    serverUrl: options.serverUrl,
+    serverVariables: options.serverVariables,
+    fileName: options.fileName,
+  };
+  return {
+    spec,
+    resolver,
+    servers,
+    baseUrl: resolveBaseUrl((spec as any).servers, servers),
+    hasSecurity: !!spec.components?.securitySchemes || Array.isArray((spec as any).security),
+    templates: compileTemplates(options.templates),
+    snippetLanguages: options.snippetLanguages,
+    maxSchemaDepth: options.maxSchemaDepth,
+    exampleSeed: options.exampleSeed,
+    filter: options.filter,
+    compaction: createCompaction(),
+    sharing: options.sharedSchemas ? {
+      minUses: options.sharedSchemaMinUses ?? DEFAULT_SHARED_SCHEMA_MIN_USES,
+      minFields: options.sharedSchemaMinFields ?? DEFAULT_SHARED_SCHEMA_MIN_FIELDS,
+    } : undefined,
+    sharedSchemas: new Map(),
+    schemaSection: isJsonSchemaDocument(spec) ? 'Definitions' : 'Schemas',
+    schemaUsage: new Map(),
+    operationFiles: new Map(),
+    currentFile: '',
+    sourceMap: options.sourceMap ? { source, pointers: indexSourcePointers(source) } : undefined,
+    progress: { done: 0, total: 0 },
+  };
+}
+
+/**
+ * The operations to render: those the filter keeps, minus deprecated ones once that compaction step is on.
+ */
+function visibleOperations(ctx: RenderContext): OperationEntry[] {
+  return withoutDeprecated(ctx, filterOperations(collectOperations(ctx.spec, ctx.resolver), ctx.filter));
+}
+
+/**
+ * The webhooks to render, filtered like operations with the webhook name in place of the path.
+ */
+function visibleWebhooks(ctx: RenderContext): OperationEntry[] {
+  const webhooks = Object.entries((ctx.spec as any).webhooks || {}).map(([name, item]) => [name, ctx.resolver.deref(item)]);
+  return withoutDeprecated(ctx, filterOperations(collectOperations({ paths: Object.fromEntries(webhooks) }, ctx.resolver), ctx.filter));
+}
+
+function withoutDeprecated(ctx: RenderContext, entries: OperationEntry[]): OperationEntry[] {
+  if (!isEnabled(ctx.compaction, 'deprecated')) return entries;
+  return entries.filter(({ path, method, operation }) => {
+    if (operation.deprecated) recordAffected(ctx.compaction, 'deprecated', `${method.toUpperCase()} ${path}`);
+    return !operation.deprecated;
+  });
+}
+
+function renderDocumentHeader(ctx: RenderContext, lines: string[], operations: OperationEntry[]) {
+  const { spec, resolver } = ctx;
+  ctx.compaction.location = '';
+  const description = truncateDescription(ctx.compaction, spec.info?.description, 'API description') || '';
+  const baseUrls: string[] = [];
+  renderServersSection(spec, baseUrls, hasSnippets(operations) ? ctx.baseUrl : undefined);
+  const authentication: string[] = [];
+  renderAuthenticationSection(spec, resolver, authentication);
+
+  const context: HeaderTemplateContext = {
+    title: spec.info?.title || 'API Documentation',
+    version: spec.info?.version,
+    description,
+    baseUrls: baseUrls.join('\n'),
+    authentication: authentication.join('\n'),
+    servers: listServers((spec as any).servers),
+    baseUrl: ctx.baseUrl,
+  };
+  pushTemplate(lines, ctx.templates.header, context);
+}
+
+// Adds a rendered template: whole lines, each ending in a newline but the last one's is dropped.
+// `mark` ties its first line to the spec location it describes.
+function pushTemplate(lines: string[], template: Template, context: any, mark = '') {
+  const text = template.render(context);
+  if (text) lines.push(mark + text.replace(/\n$/, ''));
+}
+
+// The source marker of a spec object: found by identity, which normalized Swagger, AsyncAPI and
+// Postman input mostly lacks, so `fallback` (pointer segments) is used when it exists in the source
+function markSource(ctx: RenderContext, node: any, fallback?: string[]): string {
+  if (!ctx.sourceMap) return '';
+  const pointer = node && typeof node === 'object' ? ctx.sourceMap.pointers.get(node) : undefined;
+  if (pointer !== undefined || !fallback) return sourceMark(pointer);
+  const fallbackPointer = toPointer(fallback);
+  return sourceMark(evaluatePointer(ctx.sourceMap.source, fallbackPointer) !== undefined ? fallbackPointer : undefined);
+}
+
+/**
+ * The llm.txt layout of a bare JSON Schema document: the root schema's fields, then one section
+ * per definition (`$defs` or draft-07 `definitions`) that `$ref`s to it link to. Every schema gets
+ * an example generated from it, shown only when it validates. Examples are kept under a token
+ * budget since they are most of what the layout adds.
+ */
+function renderJsonSchemaDocument(ctx: RenderContext): string {
+  const root: any = ctx.spec;
   const lines: string[] = [];
+  const definitions = listDefinitions(ctx);
+  ctx.progress = { done: 0, total: definitions.length + 1 };
+  ctx.sharedSchemas.clear();
+  definitions.forEach(ref => {
+    const names = new Set(Array.from(ctx.sharedSchemas.values()).map(queued => queued.name));
+    let name = ref.name;
+    for (let i = 2; names.has(name); i++) name = `${ref.name}${i}`;
+    ctx.sharedSchemas.set(ref.key, { ...ref, name });
+  });
 
-  // Title and Summary
-  lines.push(`# ${spec.info.title || 'API Documentation'}`);
-  lines.push(`${spec.info.description || 'No description provided.'}`);
+  lines.push(`# ${root.title || 'JSON Schema'}`);
+  ctx.compaction.location = '';
+  lines.push(`${truncateDescription(ctx.compaction, root.description, 'schema description') || 'No description provided.'}`);
   lines.push('');
+  if (root.$schema) lines.push(`Dialect: \`${root.$schema}\``);
+  if (root.$id) lines.push(`ID: \`${root.$id}\``);
+  if (root.$schema || root.$id) lines.push('');
+
+  const rootKey = ctx.resolver.resolve('#')?.key;
+  const fields: string[] = [];
+  parseSchema(root, ctx, fields, 0, { seen: rootKey ? [rootKey] : [], nesting: 0 });
+  if (fields.length > 0) {
+    lines.push('## Document');
+    lines.push('A valid document matches this schema.');
+    lines.push('');
+    pushSchemaDetails(root, fields, ctx, lines);
+  }
+  advanceProgress(ctx);
 
-  // Endpoints Section
-  lines.push('## Endpoints');
+  if (ctx.sharedSchemas.size > 0) {
+    lines.push(`## ${ctx.schemaSection}`);
+    lines.push('Schemas defined once and referenced by name. Fields of these types link here.');
+    lines.push('');
+  }
+  // Compacting into shared schemas may queue more (non-definition refs) while this runs
+  for (let i = 0; i < ctx.sharedSchemas.size; i++) {
+    const ref: ResolvedRef = Array.from(ctx.sharedSchemas.values())[i];
+    ctx.compaction.location = `schema \`${ref.name}\``;
+    lines.push(`<a id="${schemaAnchor(ref.name)}"></a>`);
+    lines.push(`### ${ref.name}`);
+    const description = truncateDescription(ctx.compaction, ref.value?.description, 'description');
+    if (description && hasSchemaType(ref.value, 'object')) lines.push(description);
+    const definitionFields: string[] = [];
+    parseSchema(ref.value, ctx, definitionFields, 0, { seen: [ref.key], nesting: 0 });
+    pushSchemaDetails(ref.value, definitionFields, ctx, lines);
+    if (i < definitions.length) advanceProgress(ctx);
+  }
+  renderOmittedContent(ctx.compaction, lines);
+  return lines.join('\n');
+}
+
+/**
+ * The definitions of a JSON Schema document, in declaration order.
+ */
+function listDefinitions(ctx: RenderContext): ResolvedRef[] {
+  return ['$defs', 'definitions'].flatMap(keyword => Object.keys((ctx.spec as any)[keyword] || {})
+    .map(name => ctx.resolver.resolve(`#${toPointer([keyword, name])}`))
+    .filter((ref): ref is ResolvedRef => !!ref && !!ref.value && typeof ref.value === 'object'));
+}
+
+// Object-level constraints (field ones are on the field lines), the fields, then the example
+function pushSchemaDetails(schema: any, fields: string[], ctx: RenderContext, lines: string[]) {
+  if (hasSchemaType(schema, 'object')) {
+    const constraints = describeConstraints({ ...schema, example: undefined, examples: undefined });
+    if (constraints.length > 0) lines.push(`*Constraints: ${constraints.join(', ')}*`);
+  }
+  lines.push(...fields);
   lines.push('');
+  const example = generateExample(schema, ctx.resolver, { onlyRequired: false, seed: ctx.exampleSeed });
+  // Diagnostics report the examples left out here
+  if (example !== undefined && validateValue(example, schema, ctx.resolver).length === 0) {
+    pushExample(lines, 'schema', 'application/json', false, {}, example, ctx, '');
+  }
+}
 
-  const paths = spec.paths || {};
-  const baseUrl = (spec as any).servers?.[0]?.url || 'https://api.example.com';
+// Usage snippets are only rendered for HTTP operations, not for messages
+function hasSnippets(operations: OperationEntry[]): boolean {
+  return operations.some(entry => HTTP_METHODS.includes(entry.method));
+}
 
-  Object.entries(paths).forEach(([path, methods]) => {
-    Object.entries(methods as Record<string, any>).forEach(([method, details]) => {
-      const lowerMethod = method.toLowerCase();
-      if (['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(lowerMethod)) {
-        const op = details as any;
-        const summary = op.summary || op.operationId || 'No summary';
-        
-        lines.push(`### ${method.toUpperCase()} ${path} - ${summary}`);
-        if (op.description) lines.push(op.description);
-        lines.push('');
+/**
+ * Renders one operation block: Input, examples, Output and Usage Examples.
+ */
+function renderOperation(entry: OperationEntry, ctx: RenderContext, lines: string[]) {
+  const { path, method, operation: op } = entry;
+  const { spec, hasSecurity } = ctx;
+  const label = `${method.toUpperCase()} ${path}`;
+  ctx.compaction.location = label;
 
-        // --- INPUT SECTION ---
-        lines.push('#### Input');
-        
-        const parameters = op.parameters || [];
-        if (parameters.length > 0) {
-          lines.push('**Parameters:**');
-          parameters.forEach((p: any) => {
-            const pAny = p as any;
-            const schema = pAny.schema || {};
-            const type = schema.type || pAny.type || 'unknown';
-            const def = schema.default !== undefined ? schema.default : pAny.default;
-            const enums = schema.enum || pAny.enum;
-            const format = schema.format || pAny.format;
-            const min = schema.minimum !== undefined ? schema.minimum : pAny.minimum;
-            const max = schema.maximum !== undefined ? schema.maximum : pAny.maximum;
-            
-            let metadata = `${pAny.in}, \`${type}\``;
-            if (format) metadata += `, format: \`${format}\``;
-            if (min !== undefined) metadata += `, min: \`${min}\``;
-            if (max !== undefined) metadata += `, max: \`${max}\``;
-            if (def !== undefined) metadata += `, default: \`${JSON.stringify(def)}\``;
-            if (enums && Array.isArray(enums)) metadata += `, enum: [${enums.map((e: any) => `\`${JSON.stringify(e)}\``).join(', ')}]`;
-            
-            const reqStr = pAny.required ? '**Required**' : 'Optional';
-            lines.push(`- \`${pAny.name}\` [${reqStr}] (${metadata}): ${pAny.description || 'No description'}`);
-          });
-        }
+  const description = truncateDescription(ctx.compaction, op.description, 'description') || '';
+  const security = getEffectiveSecurity(op, spec);
+  const servers: string[] = [];
+  if (hasOwnServers(entry)) pushServerList(listServers(getEffectiveServers(entry, spec)), servers);
+  const request = collectRequest(entry, ctx, label);
 
-        const requestBody = op.requestBody;
-        let bodySchema: any = null;
-        if (requestBody) {
-          lines.push('**Request Body:**');
-          const content = (requestBody.content || {}) as any;
-          bodySchema = content['application/json']?.schema || content['*/*']?.schema || (Object.values(content)[0] as any)?.schema;
-          if (bodySchema) {
-            parseSchema(bodySchema, spec, lines, 0);
-          } else {
-            const types = Object.keys(content).join(', ');
-            lines.push(`- *Content types: ${types || 'Unknown'} (No schema defined)*`);
-          }
-        }
+  const output: string[] = [];
+  if (!HTTP_METHODS.includes(method) && Object.keys(op.responses || {}).length === 0) {
+    output.push('- No reply; the message is delivered without a response.');
+    output.push('');
+  } else {
+    renderResponses(op, ctx, output, label);
+  }
+  const callbacks: string[] = [];
+  renderCallbacks(op, ctx, callbacks, label);
 
-        if (parameters.length === 0 && !requestBody) {
-          lines.push('- No input parameters required.');
-        }
-        lines.push('');
-
-        // --- EXAMPLES (INPUT) ---
-        if (bodySchema) {
-          const requiredEx = generateExample(bodySchema, spec, true);
-          const fullEx = generateExample(bodySchema, spec, false);
-
-          if (Object.keys(requiredEx).length > 0) {
-            lines.push('**Required Parameters Example**:');
-            lines.push('```json');
-            lines.push(JSON.stringify(requiredEx, null, 2));
-            lines.push('```');
-            lines.push('');
-          }
+  // The snippets are HTTP requests; a message's payload example is already shown above
+  const withSnippets = HTTP_METHODS.includes(method);
+  const snippetRequest = withSnippets ? buildSnippetRequest(entry, ctx, security, request.bodyContentType, request.bodySchema) : undefined;
 
-          lines.push('**Full Example**:');
-          lines.push('```json');
-          lines.push(JSON.stringify(fullEx, null, 2));
-          lines.push('```');
-          lines.push('');
-        }
+  const context: OperationTemplateContext = {
+    anchor: operationAnchorTag(ctx, label),
+    method: method.toUpperCase(),
+    path,
+    label,
+    title: op.summary || op.operationId || 'No summary',
+    summary: op.summary,
+    operationId: op.operationId,
+    description,
+    deprecated: !!op.deprecated,
+    tags: op.tags || [],
+    authentication: hasSecurity ? describeSecurity(security) : '',
+    baseUrl: resolveBaseUrl(getEffectiveServers(entry, spec), ctx.servers),
+    servers: servers.join('\n'),
+    parameters: request.parameters.join('\n'),
+    hasRequestBody: request.hasBody,
+    requestBody: request.body.join('\n'),
+    hasInput: request.parameters.length > 0 || request.hasBody,
+    requestExamples: request.examples.join('\n'),
+    output: output.join('\n'),
+    callbacks: callbacks.join('\n'),
+    hasSnippets: withSnippets,
+    snippets: snippetRequest
+      ? resolveSnippetGenerators(ctx.snippetLanguages).map(generator => ({ label: generator.label, fence: generator.fence, code: generator.generate(snippetRequest) }))
+      : [],
+  };
+  pushTemplate(lines, ctx.templates.operation, context, markSource(ctx, op, ['paths', path, method]));
+  advanceProgress(ctx);
+}
 
-        // --- OUTPUT SECTION ---
-        lines.push('#### Output');
-        const responses = op.responses || {};
-        
-        if (Object.keys(responses).length > 0) {
-          Object.entries(responses).forEach(([code, response]: [string, any]) => {
-            const desc = response.description || 'No description';
-            lines.push(`**Response ${code}: ${desc}**`);
-            
-            const content = (response.content || {}) as any;
-            const jsonSchema = content['application/json']?.schema || content['*/*']?.schema || (Object.values(content)[0] as any)?.schema;
-            
-            if (jsonSchema) {
-              parseSchema(jsonSchema, spec, lines, 1);
-              
-              // Add Response Example
-              const respEx = (content['application/json']?.example || content['application/json']?.examples?.[0]?.value) || generateExample(jsonSchema, spec, false);
-              if (respEx && Object.keys(respEx).length > 0) {
-                lines.push('  **Example Response**:');
-                lines.push('  ```json');
-                lines.push(JSON.stringify(respEx, null, 2).split('\n').map(l => '  ' + l).join('\n'));
-                lines.push('  ```');
-              }
-            } else if (response.$ref) {
-              parseSchema(response, spec, lines, 1);
-            } else {
-              lines.push('  - No response body schema defined.');
-            }
-            lines.push('');
-          });
-        } else {
-          lines.push('- No response documentation provided.');
-        }
+/**
+ * Renders a request the API sends rather than receives (a webhook or callback): its payload and
+ * the responses it expects back. `level` is the heading level; callbacks nest under an operation.
+ */
+function renderEvent(entry: OperationEntry, ctx: RenderContext, lines: string[], level: number, label: string) {
+  const { operation: op } = entry;
+  const summary = op.summary || op.operationId || 'No summary';
+  ctx.compaction.location = label;
 
-        // --- USAGE EXAMPLES ---
-        lines.push('#### Usage Examples');
-        lines.push('');
-        lines.push('##### cURL');
-        lines.push('```bash');
-        let curlCmd = `curl --request ${method.toUpperCase()} \\\n  --url ${baseUrl}${path} \\\n  --header "Content-Type: application/json"`;
-        if (bodySchema) {
-          const reqEx = generateExample(bodySchema, spec, true);
-          curlCmd += ` \\\n  --data '${JSON.stringify(reqEx, null, 2)}'`;
-        }
-        lines.push(curlCmd);
-        lines.push('```');
-        lines.push('');
+  lines.push(`${markSource(ctx, op)}${'#'.repeat(level)} ${label} - ${summary}`);
+  const description = truncateDescription(ctx.compaction, op.description, 'description');
+  if (description) lines.push(description);
+  lines.push('');
+  lines.push(`${'#'.repeat(level + 1)} Payload`);
+  const request = collectRequest(entry, ctx, label, 'response');
+  if (request.parameters.length > 0) lines.push('**Parameters:**', ...request.parameters);
+  if (request.hasBody) lines.push('**Request Body:**', ...request.body);
+  if (request.parameters.length === 0 && !request.hasBody) lines.push('- No payload.');
+  lines.push('');
+  lines.push(...request.examples);
+  lines.push(`${'#'.repeat(level + 1)} Expected Responses`);
+  renderResponses(op, ctx, lines, label, 'request');
+}
 
-        lines.push('---');
-        lines.push('');
-      }
+/**
+ * Renders the `callbacks` an operation registers, each URL expression with its requests.
+ */
+function renderCallbacks(op: any, ctx: RenderContext, lines: string[], label: string) {
+  const callbacks = Object.entries(op.callbacks || {});
+  if (callbacks.length === 0) return;
+  lines.push('#### Callbacks');
+  lines.push('Requests the API sends to your server after this call, at the URL given by the runtime expression.');
+  lines.push('');
+  callbacks.forEach(([name, raw]) => {
+    Object.entries(ctx.resolver.deref(raw) || {}).forEach(([expression, pathItem]) => {
+      collectOperations({ paths: { [expression]: pathItem } }, ctx.resolver).forEach(entry => {
+        renderEvent(entry, ctx, lines, 5, `${name}: ${entry.method.toUpperCase()} ${expression}`);
+      });
     });
   });
+  ctx.compaction.location = label;
+}
 
-  return lines.join('\n');
-};
+/**
+ * Renders the top-level `webhooks` (OpenAPI 3.1): requests the API sends when events happen.
+ */
+function renderWebhooks(entries: OperationEntry[], ctx: RenderContext, lines: string[]) {
+  if (entries.length === 0) return;
+  lines.push('## Webhooks');
+  lines.push('Requests the API sends to URLs you register when events happen. Reply with one of the expected responses.');
+  lines.push('');
+  entries.forEach(entry => {
+    const label = `${entry.method.toUpperCase()} ${entry.path}`;
+    pushOperationAnchor(ctx, lines, label);
+    renderEvent(entry, ctx, lines, 3, label);
+    lines.push('---');
+    lines.push('');
+    advanceProgress(ctx);
+  });
+}
 
 /**
- * Generate a synthetic JSON example from a schema.
+ * Renders a response's `links` as hints for the next call: which values to carry over, and where.
  */
-function generateExample(schema: any, root: any, onlyRequired: boolean): any {
-  if (!schema) return undefined;
+function renderLinks(response: any, ctx: RenderContext, lines: string[]) {
+  const links = Object.entries(response.links || {});
+  if (links.length === 0) return;
+  lines.push('  **Next calls:**');
+  links.forEach(([name, raw]) => {
+    const link: any = ctx.resolver.deref(raw) || {};
+    const target = findLinkTarget(link, ctx) || `\`${link.operationId || link.operationRef || name}\``;
+    const uses = Object.entries(link.parameters || {})
+      .map(([param, value]) => `${describeRuntimeValue(value)} as \`${param.replace(/^(path|query|header|cookie)\./, '')}\``);
+    if (link.requestBody !== undefined) uses.push(`${describeRuntimeValue(link.requestBody)} as the body`);
+    const hint = uses.length > 0 ? `use ${joinWords(uses)} in ${target}` : `call ${target}`;
+    lines.push(`  - ${hint}${link.description ? ` (${link.description.trim()})` : ''}`);
+  });
+}
 
-  // Resolve Reference
-  if (schema.$ref) {
-    const refPath = schema.$ref.replace('#/', '').split('/');
-    let target = root;
-    for (const segment of refPath) {
-      target = target?.[segment];
+/**
+ * `METHOD /path` of the operation a link points to, by `operationId` or a local `operationRef`.
+ */
+function findLinkTarget(link: any, ctx: RenderContext): string | undefined {
+  if (link.operationId) {
+    const entry = collectOperations(ctx.spec, ctx.resolver).find(({ operation }) => operation.operationId === link.operationId);
+    return entry && `${entry.method.toUpperCase()} ${entry.path}`;
+  }
+  if (typeof link.operationRef === 'string' && link.operationRef.includes('#')) {
+    const [root, path, method] = parsePointer(link.operationRef.slice(link.operationRef.indexOf('#') + 1));
+    if (root === 'paths' && path && method) return `${method.toUpperCase()} ${path}`;
+  }
+  return undefined;
+}
+
+/**
+ * Describes a link value in words: runtime expressions such as `$response.body#/id` become
+ * "`id` from this response"; anything else is a constant.
+ */
+function describeRuntimeValue(value: any): string {
+  if (typeof value !== 'string' || !value.startsWith('$')) return `\`${typeof value === 'string' ? value : JSON.stringify(value)}\``;
+  const body = /^\$(request|response)\.body(?:#(.*))?$/.exec(value);
+  if (body) {
+    const field = body[2] ? parsePointer(body[2]).join('.') : '';
+    if (body[1] === 'response') return field ? `\`${field}\` from this response` : 'this response body';
+    return field ? `\`${field}\` from the request body` : 'the request body';
+  }
+  const part = /^\$(request|response)\.(path|query|header)\.(.+)$/.exec(value);
+  if (part) {
+    const kind = part[2] === 'header' ? 'header' : `${part[2]} parameter`;
+    return `the \`${part[3]}\` ${kind} of ${part[1] === 'response' ? 'this response' : 'the request'}`;
+  }
+  if (value === '$url') return 'the request URL';
+  if (value === '$method') return 'the request method';
+  if (value === '$statusCode') return 'the response status code';
+  return `\`${value}\``;
+}
+
+/**
+ * What a request carries, rendered: parameter lines, body fields and body examples.
+ */
+interface RequestParts {
+  parameters: string[];
+  hasBody: boolean;
+  body: string[];
+  examples: string[];
+  bodySchema: any;
+  bodyContentType?: string;
+}
+
+// `direction` is whose payload it is: a request the client sends, or for webhooks and callbacks
+// a `response`-like one the API sends, which shows readOnly fields and hides writeOnly ones
+function collectRequest(entry: OperationEntry, ctx: RenderContext, label: string, direction: SchemaDirection = 'request'): RequestParts {
+  const { operation: op } = entry;
+  const { resolver, exampleSeed: seed } = ctx;
+  const dropExamples = isEnabled(ctx.compaction, 'examples');
+  const parameters: string[] = [];
+  getOperationParameters(entry, resolver).forEach(param => {
+    pushParameter(parameters, param, truncateDescription(ctx.compaction, param.description, `parameter \`${param.name}\``), ctx, false, param);
+  });
+
+  const requestBody = resolver.deref(op.requestBody);
+  const body: string[] = [];
+  const examples: string[] = [];
+  let bodySchema: any = null;
+  let bodyContentType: string | undefined;
+  if (requestBody) {
+    const content = (requestBody.content || {}) as any;
+    bodyContentType = pickMediaType(content);
+    bodySchema = bodyContentType ? content[bodyContentType].schema : undefined;
+    if (bodySchema) {
+      renderContent(content, ctx, body, 0, direction);
+    } else {
+      const types = Object.keys(content).join(', ');
+      body.push(`- *Content types: ${types || 'Unknown'} (No schema defined)*`);
     }
-    return target ? generateExample(target, root, onlyRequired) : undefined;
   }
 
-  // Handle allOf (merge)
-  if (schema.allOf) {
-    let merged = {};
-    schema.allOf.forEach((sub: any) => {
-      const ex = generateExample(sub, root, onlyRequired);
-      if (typeof ex === 'object' && ex !== null) merged = { ...merged, ...ex };
+  if (bodySchema) {
+    const content = requestBody.content;
+    const requiredEx = generateExample(bodySchema, resolver, { onlyRequired: true, direction, seed });
+    if (requiredEx !== undefined && requiredEx !== null && Object.keys(requiredEx).length > 0) {
+      pushExample(examples, 'required', bodyContentType!, false, content[bodyContentType!], requiredEx, ctx, '');
+    }
+
+    const withSchema = Object.keys(content).filter(type => content[type]?.schema);
+    withSchema.forEach(mediaType => {
+      const declared = getDeclaredExample(content[mediaType], resolver);
+      const fullEx = declared !== undefined ? declared : generateExample(content[mediaType].schema, resolver, { onlyRequired: false, direction, seed });
+      if (fullEx !== undefined && dropExamples) {
+        recordAffected(ctx.compaction, 'examples', label);
+      } else if (fullEx !== undefined) {
+        pushExample(examples, 'full', mediaType, withSchema.length > 1, content[mediaType], fullEx, ctx, '');
+      }
     });
-    return merged;
   }
 
-  // anyOf / oneOf (take first)
-  if (schema.anyOf || schema.oneOf) {
-    return generateExample((schema.anyOf || schema.oneOf)[0], root, onlyRequired);
+  return { parameters, hasBody: !!requestBody, body, examples, bodySchema, bodyContentType };
+}
+
+/**
+ * Renders each response with its fields, example and follow-up links. The responses a webhook
+ * or callback expects are sent by the client, so they take the `request` direction.
+ */
+function renderResponses(op: any, ctx: RenderContext, lines: string[], label: string, direction: SchemaDirection = 'response') {
+  const { resolver, exampleSeed: seed } = ctx;
+  const dropExamples = isEnabled(ctx.compaction, 'examples');
+  const responses = op.responses || {};
+  
+  if (Object.keys(responses).length > 0) {
+    Object.entries(responses).forEach(([code, rawResponse]: [string, any]) => {
+      const response = resolver.deref(rawResponse) || {};
+      const desc = response.description || 'No description';
+      lines.push(`**Response ${code}: ${desc}**`);
+      
+      const content = (response.content || {}) as any;
+      const withSchema = Object.keys(content).filter(type => content[type]?.schema);
+      
+      if (withSchema.length > 0) {
+        renderContent(content, ctx, lines, 1, direction);
+        
+        // Add Response Examples
+        withSchema.forEach(mediaType => {
+          const declared = getDeclaredExample(content[mediaType], resolver);
+          const respEx = declared !== undefined ? declared : generateExample(content[mediaType].schema, resolver, { onlyRequired: false, direction, seed });
+          if (respEx && Object.keys(respEx).length > 0 && dropExamples) {
+            recordAffected(ctx.compaction, 'examples', label);
+          } else if (respEx && Object.keys(respEx).length > 0) {
+            pushExample(lines, 'response', mediaType, withSchema.length > 1, content[mediaType], respEx, ctx, '  ');
+          }
+        });
+      } else if (Object.keys(content).length > 0) {
+        lines.push(`  - *Content types: ${Object.keys(content).map(type => `\`${type}\``).join(', ')} (No schema defined)*`);
+      } else if (response.$ref) {
+        lines.push(`  - \`Ref: ${response.$ref}\` (unresolved)`);
+      } else {
+        lines.push('  - No response body schema defined.');
+      }
+      renderResponseHeaders(response, ctx, lines);
+      renderLinks(response, ctx, lines);
+      lines.push('');
+    });
+  } else {
+    lines.push('- No response documentation provided.');
   }
+}
 
-  // Schema Example
-  if (schema.example !== undefined) return schema.example;
-  if (schema.default !== undefined) return schema.default;
+/**
+ * Renders the fields of a request or response body once per distinct schema. The media types are
+ * named when there are several or one is not JSON; multipart and form `encoding` is listed per part.
+ */
+function renderContent(content: Record<string, any>, ctx: RenderContext, lines: string[], depth: number, direction: SchemaDirection) {
+  const indent = (level: number) => '  '.repeat(level);
+  const groups = groupMediaTypes(content);
+  const labelled = groups.length > 1 || Object.keys(content).some(type => getMediaKind(type) !== 'json');
+  const level = labelled ? depth + 1 : depth;
 
-  // Type-based generation
-  const type = schema.type;
-  if (type === 'object' || schema.properties) {
-    const obj: any = {};
-    const props = schema.properties || {};
-    const required = schema.required || [];
+  groups.forEach(({ mediaTypes, schema }) => {
+    if (labelled) {
+      lines.push(`${indent(depth)}*Content type${mediaTypes.length > 1 ? 's' : ''} ${mediaTypes.map(type => `\`${type}\``).join(', ')}:*`);
+    }
+    if (schema) {
+      parseSchema(schema, ctx, lines, level, { seen: [], nesting: 0, direction });
+    } else {
+      lines.push(`${indent(level)}- *${getMediaKind(mediaTypes[0]) === 'binary' ? 'Raw file content' : 'No schema defined'}*`);
+    }
 
-    Object.entries(props).forEach(([key, val]: [string, any]) => {
-      if (onlyRequired && !required.includes(key)) return;
-      obj[key] = generateExample(val, root, onlyRequired);
+    mediaTypes.forEach(mediaType => {
+      const encoding = Object.entries(content[mediaType]?.encoding || {});
+      if (encoding.length === 0) return;
+      lines.push(`${indent(level)}*Encoding${mediaTypes.length > 1 ? ` (\`${mediaType}\`)` : ''}:*`);
+      encoding.forEach(([part, raw]) => {
+        const details: string[] = [];
+        const enc: any = ctx.resolver.deref(raw) || {};
+        if (enc.contentType) details.push(`content type: \`${enc.contentType}\``);
+        const headers = Object.keys(enc.headers || {}).filter(name => name.toLowerCase() !== 'content-type');
+        if (headers.length > 0) details.push(`headers: ${headers.map(name => `\`${name}\``).join(', ')}`);
+        if (enc.style || enc.explode !== undefined) {
+          const { style, explode } = getParameterStyle({ in: 'query', style: enc.style, explode: enc.explode });
+          details.push(`style: \`${style}\`${explode ? ' (exploded)' : ''}`);
+        }
+        if (enc.allowReserved) details.push('reserved characters allowed');
+        lines.push(`${indent(level + 1)}- \`${part}\`${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+      });
     });
-    return obj;
-  }
+  });
+}
+
+// Default titles of the example blocks; the media type is added when there are several
+const EXAMPLE_TITLES: Record<ExampleTemplateContext['kind'], string> = {
+  required: '**Required Parameters Example**',
+  full: '**Full Example**',
+  response: '**Example Response**',
+  schema: '**Example**',
+};
+
+/**
+ * Adds an example block (the `example` template) written in the format of its media type;
+ * raw binary content has none.
+ */
+function pushExample(lines: string[], kind: ExampleTemplateContext['kind'], mediaType: string, showMediaType: boolean, media: any, value: any, ctx: RenderContext, indent: string) {
+  const text = formatExample(value, mediaType, media, ctx.resolver);
+  if (text === undefined) return;
+  const context: ExampleTemplateContext = {
+    indent,
+    title: showMediaType ? `${EXAMPLE_TITLES[kind]} (\`${mediaType}\`)` : EXAMPLE_TITLES[kind],
+    kind,
+    is: { required: kind === 'required', full: kind === 'full', response: kind === 'response', schema: kind === 'schema' },
+    mediaType,
+    showMediaType,
+    fence: MEDIA_FENCES[getMediaKind(mediaType)],
+    code: text.split('\n').map(l => indent + l).join('\n'),
+  };
+  pushTemplate(lines, ctx.templates.example, context);
+}
 
-  if (type === 'array') {
-    return [generateExample(schema.items, root, onlyRequired)];
+/**
+ * Lists the headers a response declares (rate limits, pagination, ...) like parameters.
+ */
+function renderResponseHeaders(response: any, ctx: RenderContext, lines: string[]) {
+  // Content-Type is given by the media type; the spec says to ignore it here
+  const headers = Object.entries(response.headers || {}).filter(([name]) => name.toLowerCase() !== 'content-type');
+  if (headers.length === 0) return;
+  lines.push('  **Headers:**');
+  headers.forEach(([name, raw]) => {
+    const definition: any = ctx.resolver.deref(raw) || {};
+    const header = { ...definition, name, in: 'header' };
+    pushParameter(lines, header, truncateDescription(ctx.compaction, header.description, `header \`${name}\``), ctx, true, raw);
+  });
+}
+
+/**
+ * Adds a parameter or response header line (the `parameter` template). `source` is the object as
+ * written in the spec, for the source map.
+ */
+function pushParameter(lines: string[], param: any, description: string | undefined, ctx: RenderContext, responseHeader: boolean, source: any) {
+  const context: ParameterTemplateContext = {
+    indent: responseHeader ? '  ' : '',
+    name: param.name,
+    in: param.in,
+    required: !!param.required,
+    deprecated: !!param.deprecated,
+    details: describeParameter(param, ctx),
+    description: description || '',
+    responseHeader,
+  };
+  pushTemplate(lines, ctx.templates.parameter, context, markSource(ctx, source));
+}
+
+/**
+ * The details of a parameter or header: type and constraints, `content` media type, how arrays
+ * and objects are serialized (with a sample), deprecation, empty values and its own example.
+ */
+function describeParameter(param: any, ctx: RenderContext): string {
+  const { resolver, exampleSeed: seed } = ctx;
+  const schema = resolver.deref(getParameterSchema(param)) || {};
+  const mediaType = getParameterMediaType(param);
+  const parts = [formatSchemaMetadata(schema, formatSchemaType(schema, param.type || 'unknown'))];
+  if (mediaType) parts.push(`content: \`${mediaType}\``);
+
+  const structured = hasSchemaType(schema, 'array') || hasSchemaType(schema, 'object');
+  if (!mediaType && (param.style || param.explode !== undefined || structured)) {
+    const { style, explode } = getParameterStyle(param);
+    const explicit = getParameterExample(param, resolver);
+    const value = explicit !== undefined ? explicit : generateExample(schema, resolver, { onlyRequired: false, direction: 'request', seed });
+    const sample = value !== undefined && structured ? `, e.g. \`${formatSerialized(param, serializeParameter(param, value))}\`` : '';
+    parts.push(`style: \`${style}\`${explode ? ' (exploded)' : ''}${sample}`);
   }
 
-  // Primitives
-  if (schema.enum) return schema.enum[0];
-  switch (type) {
-    case 'string':
-      if (schema.format === 'date-time') return new Date().toISOString();
-      if (schema.format === 'uri') return "https://example.com";
-      return "string";
-    case 'integer':
-    case 'number':
-      return 0;
-    case 'boolean':
-      return true;
-    default:
-      return null;
+  if (param.deprecated) parts.push('**deprecated**');
+  if (param.allowEmptyValue) parts.push('empty value allowed');
+  const declared = getDeclaredExample(mediaType ? param.content[mediaType] : param, resolver);
+  if (declared !== undefined) parts.push(`example: \`${JSON.stringify(declared)}\``);
+  return parts.join(', ');
+}
+
+/**
+ * Builds the concrete request shown in the usage snippets: path params filled in, required or
+ * exemplified query/header/cookie params appended, auth placeholders and the required-fields body.
+ */
+function buildSnippetRequest(entry: OperationEntry, ctx: RenderContext, security: SecurityRequirement[], contentType: string | undefined, bodySchema: any): SnippetRequest {
+  const { path, method, operation: op } = entry;
+  const { spec, resolver, exampleSeed: seed } = ctx;
+  const baseUrl = resolveBaseUrl(getEffectiveServers(entry, spec), ctx.servers);
+  const auth = getAuthPlaceholders(security, spec, resolver);
+  // Encoded name/value pairs; auth placeholders such as <API_KEY> stay readable
+  const query: [string, string][] = Object.entries(auth.query)
+    .map(([k, v]) => [encodeURIComponent(k), v.startsWith('<') ? v : encodeURIComponent(v)]);
+  const headers: Record<string, string> = {};
+  const cookies: Record<string, string> = { ...auth.cookies };
+  let resolvedPath = path;
+
+  getOperationParameters(entry, resolver).forEach(param => {
+    const explicit = getParameterExample(param, resolver);
+    if (param.in !== 'path' && !param.required && explicit === undefined) return;
+    const value = explicit !== undefined ? explicit : generateExample(getParameterSchema(param), resolver, { onlyRequired: true, direction: 'request', seed });
+
+    if (param.in === 'path') {
+      resolvedPath = resolvedPath.split(`{${param.name}}`).join(serializeParameter(param, value, encodeURIComponent)[0][1]);
+    } else if (param.in === 'query') {
+      serializeParameter(param, value, encodeURIComponent).forEach(([k, v]) => query.push([encodeURIComponent(k), v]));
+    } else if (param.in === 'header') {
+      headers[param.name] = serializeParameter(param, value)[0][1];
+    } else if (param.in === 'cookie') {
+      serializeParameter(param, value).forEach(([k, v]) => { cookies[k] = v; });
+    }
+  });
+  Object.assign(headers, auth.headers);
+
+  let body: any;
+  const fileFields: string[] = [];
+  const kind = contentType ? getMediaKind(contentType) : undefined;
+  const media = contentType ? resolver.deref(op.requestBody)?.content?.[contentType] : undefined;
+  if (contentType && kind === 'binary') {
+    // Raw uploads are read from a file by the snippet, whatever the schema says
+    body = '';
+  } else if (bodySchema && contentType) {
+    const declared = getDeclaredExample(media, resolver);
+    body = declared !== undefined ? declared : generateExample(bodySchema, resolver, { onlyRequired: true, direction: 'request', seed });
+    const properties = resolver.deref(bodySchema)?.properties || {};
+    Object.entries(properties).forEach(([name, prop]: [string, any]) => {
+      if (isFileField(prop, resolver)) fileFields.push(name);
+    });
+    // Snippets send JSON, form and multipart bodies from the value; other formats as written
+    if (kind === 'xml' || kind === 'text' || kind === 'event-stream') body = formatExample(body, contentType, media, resolver);
   }
+
+  const queryString = query.map(([k, v]) => `${k}=${v}`).join('&');
+  return {
+    method: method.toUpperCase(),
+    url: `${baseUrl}${resolvedPath}${queryString ? `?${queryString}` : ''}`,
+    headers,
+    cookies,
+    contentType: body === undefined ? undefined : contentType,
+    body,
+    fileFields,
+    encoding: media?.encoding,
+  };
+}
+
+/**
+ * Returns the example a parameter declares itself (`example`, first named `examples` entry,
+ * or the schema's `example`/`default`/first `enum` value).
+ */
+function getParameterExample(param: any, resolver: RefResolver): any {
+  const mediaType = getParameterMediaType(param);
+  const declared = getDeclaredExample(mediaType ? param.content[mediaType] : param, resolver);
+  if (declared !== undefined) return declared;
+  const schema = resolver.deref(getParameterSchema(param)) || {};
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  return undefined;
+}
+
+/**
+ * Parses the extra files of a multi-file upload so relative `$ref`s can point into them.
+ */
+function parseExternalFiles(files: Record<string, string> = {}): Record<string, any> {
+  return Object.fromEntries(Object.entries(files).map(([path, content]) => {
+    try {
+      return [path, parseSpecContent(content)];
+    } catch (e: any) {
+      throw new Error(`${path}: ${e.message}`);
+    }
+  }));
+}
+
+/**
+ * State carried down a schema walk: refs being expanded (for cycle detection), how many
+ * object/array levels deep we are, and which direction hides readOnly/writeOnly fields.
+ */
+interface SchemaWalk {
+  seen: string[];
+  nesting: number;
+  direction?: SchemaDirection;
 }
 
 /**
  * Helper to resolve $ref and display schema properties with requirements, types, defaults, and enums.
+ * A ref already being expanded higher up is rendered as a named back-reference instead of recursing.
  */
-function parseSchema(schema: any, root: any, lines: string[], depth: number) {
-  if (!schema) return;
+function parseSchema(schema: any, ctx: RenderContext, lines: string[], depth: number, walk: SchemaWalk) {
+  if (!schema || typeof schema !== 'object') return;
+  const { resolver } = ctx;
+  const indent = (level: number) => '  '.repeat(level);
 
   if (schema.$ref) {
-    const refPath = schema.$ref.replace('#/', '').split('/');
-    let target = root;
-    for (const segment of refPath) {
-      target = target?.[segment];
-    }
-    if (target) {
-      parseSchema(target, root, lines, depth);
+    const target = resolver.resolve(schema.$ref, schema);
+    const shared = sharedSchemaName(schema, ctx);
+    if (!target) {
+      lines.push(`${indent(depth)}- \`Ref: ${schema.$ref}\``);
+    } else if (shared) {
+      lines.push(`${indent(depth)}- [\`${shared}\`](#${schemaAnchor(shared)}) (see ${ctx.schemaSection})`);
+    } else if (walk.seen.includes(target.key)) {
+      lines.push(`${indent(depth)}- *Circular reference to \`${target.name}\` (see above)*`);
     } else {
-      lines.push(`${'  '.repeat(depth)}- \`Ref: ${schema.$ref}\``);
+      parseSchema(target.value, ctx, lines, depth, { ...walk, seen: [...walk.seen, target.key] });
     }
     return;
   }
 
   if (schema.allOf || schema.anyOf || schema.oneOf) {
     const label = schema.allOf ? 'All of:' : schema.anyOf ? 'Any of:' : 'One of:';
-    lines.push(`${'  '.repeat(depth)}- *${label}*`);
+    lines.push(`${indent(depth)}- *${label}*`);
     const subSchemas = schema.allOf || schema.anyOf || schema.oneOf;
-    subSchemas.forEach((sub: any) => parseSchema(sub, root, lines, depth + 1));
+    subSchemas.forEach((sub: any) => parseSchema(sub, ctx, lines, depth + 1, walk));
     return;
   }
 
-  if (schema.type === 'object' || schema.properties) {
+  // Renders a nested schema under a label, honouring the depth limit
+  const nested = (label: string | null, sub: any, level: number) => {
+    if (ctx.maxSchemaDepth !== undefined && walk.nesting + 1 > ctx.maxSchemaDepth) {
+      lines.push(`${indent(level)}- *(nested fields omitted)*`);
+      return;
+    }
+    if (label) lines.push(`${indent(level)}*${label}*`);
+    parseSchema(sub, ctx, lines, label ? level + 1 : level, { ...walk, nesting: walk.nesting + 1 });
+  };
+
+  if (hasSchemaType(schema, 'object')) {
     const props = schema.properties || {};
     const requiredFields = schema.required || [];
     
     Object.entries(props).forEach(([key, val]: [string, any]) => {
+      // 3.1 boolean schemas: `true` allows any value, `false` none
+      const booleanSchema = typeof val === 'boolean';
+      if (!booleanSchema && (!val || typeof val !== 'object')) return;
+      if (isHiddenFor(resolver.deref(val), walk.direction)) return;
+
       const isRequired = requiredFields.includes(key);
-      const reqLabel = isRequired ? '**Required**' : 'Optional';
-      
-      const type = val.type || (val.$ref ? 'object' : 'unknown');
-      const def = val.default;
-      const enums = val.enum;
-      const ex = val.example;
-      const format = val.format;
-      const min = val.minimum;
-      const max = val.maximum;
-      
-      let metadata = `\`${type}\``;
-      if (format) metadata += `, format: \`${format}\``;
-      if (min !== undefined) metadata += `, min: \`${min}\``;
-      if (max !== undefined) metadata += `, max: \`${max}\``;
-      if (def !== undefined) metadata += `, default: \`${JSON.stringify(def)}\``;
-      if (enums && Array.isArray(enums)) metadata += `, enum: [${enums.map((e: any) => `\`${JSON.stringify(e)}\``).join(', ')}]`;
-      if (ex !== undefined) metadata += `, example: \`${JSON.stringify(ex)}\``;
+      const shared = sharedSchemaName(val, ctx);
+      const metadata = booleanSchema
+        ? (val ? '`any`' : 'never allowed')
+        : shared
+          ? `[\`${shared}\`](#${schemaAnchor(shared)}), see ${ctx.schemaSection}`
+          : formatSchemaMetadata(val, getSchemaTypes(val).length === 0 && val.$ref ? 'object' : undefined);
       
-      const desc = val.description ? `: ${val.description}` : '';
-      lines.push(`${'  '.repeat(depth)}- \`${key}\` [${reqLabel}] (${metadata})${desc}`);
+      const description = truncateDescription(ctx.compaction, val.description, `field \`${key}\``);
+      const field: FieldTemplateContext = {
+        indent: indent(depth),
+        name: key,
+        required: isRequired,
+        details: metadata,
+        description: description || '',
+        depth: walk.nesting,
+        ...(shared ? { sharedSchema: shared } : {}),
+      };
+      pushTemplate(lines, ctx.templates.field, field, markSource(ctx, val));
       
-      if (val.type === 'object' || val.properties || val.$ref) {
-        parseSchema(val, root, lines, depth + 1);
-      } else if (val.type === 'array' && val.items) {
-        lines.push(`${'  '.repeat(depth + 1)}*Items:*`);
-        parseSchema(val.items, root, lines, depth + 2);
+      if (shared || booleanSchema) return;
+      if (val.$ref || val.allOf || val.anyOf || val.oneOf || (hasSchemaType(val, 'object') && hasObjectChildren(val))) {
+        nested(null, val, depth + 1);
+      } else if (hasSchemaType(val, 'array') && (val.items || val.prefixItems)) {
+        nested(val.prefixItems ? 'Tuple items:' : 'Items:', arrayItemsSchema(val), depth + 1);
       }
     });
+
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      nested('Additional properties:', schema.additionalProperties, depth);
+    }
+    Object.entries(schema.patternProperties || {}).forEach(([pattern, sub]) => {
+      nested(`Properties matching \`${pattern}\`:`, sub, depth);
+    });
+    renderConditional(schema, nested, depth);
   } 
-  else if (schema.type === 'array' && schema.items) {
-    const def = schema.default;
-    let metadata = 'array';
-    if (def !== undefined) metadata += `, default: \`${JSON.stringify(def)}\``;
-    lines.push(`${'  '.repeat(depth)}- \`Array\` (${metadata})${schema.description ? `: ${schema.description}` : ''}`);
-    parseSchema(schema.items, root, lines, depth + 1);
+  else if (hasSchemaType(schema, 'array') && (schema.items || schema.prefixItems)) {
+    const metadata = ['array', ...describeConstraints(schema)].join(', ');
+    lines.push(`${indent(depth)}- \`Array\` (${metadata})${schema.description ? `: ${schema.description}` : ''}`);
+    if (schema.prefixItems) {
+      nested(null, arrayItemsSchema(schema), depth + 1);
+    } else {
+      parseSchema(schema.items, ctx, lines, depth + 1, walk);
+    }
+  }
+  else if (getSchemaTypes(schema).length > 0 || schema.const !== undefined || Array.isArray(schema.enum)) {
+    lines.push(`${indent(depth)}- (${formatSchemaMetadata(schema)})${schema.description ? `: ${schema.description}` : ''}`);
   }
-  else if (schema.type) {
-    const def = schema.default;
-    const enums = schema.enum;
-    const format = schema.format;
-    const min = schema.minimum;
-    const max = schema.maximum;
-
-    let metadata = `\`${schema.type}\``;
-    if (format) metadata += `, format: \`${format}\``;
-    if (min !== undefined) metadata += `, min: \`${min}\``;
-    if (max !== undefined) metadata += `, max: \`${max}\``;
-    if (def !== undefined) metadata += `, default: \`${JSON.stringify(def)}\``;
-    if (enums && Array.isArray(enums)) metadata += `, enum: [${enums.map((e: any) => `\`${JSON.stringify(e)}\``).join(', ')}]`;
-    lines.push(`${'  '.repeat(depth)}- (${metadata})${schema.description ? `: ${schema.description}` : ''}`);
+  else if (Array.isArray(schema.required) && schema.required.length > 0) {
+    // Bare `required` lists show up in if/then/else branches
+    lines.push(`${indent(depth)}- *Requires: ${schema.required.map((name: string) => `\`${name}\``).join(', ')}*`);
   }
+
+  if (schema.not) nested('Must not match:', schema.not, depth);
+}
+
+/**
+ * Decides whether a `$ref` is rendered as a link to the Schemas section instead of in place.
+ * With the `sharedSchemas` option, component schemas used by enough operations and with enough
+ * fields are shared; the `schemas` compaction step shares every named schema. A shared schema
+ * is queued for the section and its (file-unique) name is returned.
+ */
+function sharedSchemaName(schema: any, ctx: RenderContext): string | null {
+  if (!schema?.$ref) return null;
+  const { sharedSchemas } = ctx;
+  // JSON Schema documents queue every definition up front, whatever the options
+  if (!ctx.sharing && !isEnabled(ctx.compaction, 'schemas') && sharedSchemas.size === 0) return null;
+  const target = ctx.resolver.resolve(schema.$ref, schema);
+  if (!target) return null;
+  if (!sharedSchemas.has(target.key)) {
+    if (!ctx.sharing && !isEnabled(ctx.compaction, 'schemas')) return null;
+    const qualifies = !!ctx.sharing && isComponentSchema(target)
+      && (ctx.schemaUsage.get(target.key)?.length || 0) >= ctx.sharing.minUses
+      && countFields(target.value, ctx.resolver) >= ctx.sharing.minFields;
+    if (!qualifies && !isEnabled(ctx.compaction, 'schemas')) return null;
+    if (!qualifies) recordAffected(ctx.compaction, 'schemas', target.name);
+    const names = new Set(Array.from(sharedSchemas.values()).map(ref => ref.name));
+    let name = target.name;
+    for (let i = 2; names.has(name); i++) name = `${target.name}${i}`;
+    sharedSchemas.set(target.key, { ...target, name });
+  }
+  return sharedSchemas.get(target.key)!.name;
+}
+
+/**
+ * Renders every schema queued by `sharedSchemaName` once, at the end of the file, each with an
+ * anchor and the operations that use it. Rendering one may queue more (its own refs), so the
+ * loop runs until the queue stops growing.
+ */
+function renderSharedSchemas(ctx: RenderContext, lines: string[]) {
+  const { sharedSchemas } = ctx;
+  if (sharedSchemas.size === 0) return;
+  lines.push('## Schemas');
+  lines.push('Schemas used in several places, described once. Fields of these types link here.');
+  lines.push('');
+  for (let i = 0; i < sharedSchemas.size; i++) {
+    const ref: ResolvedRef = Array.from(sharedSchemas.values())[i];
+    ctx.compaction.location = `schema \`${ref.name}\``;
+    lines.push(`<a id="${schemaAnchor(ref.name)}"></a>`);
+    lines.push(`### ${ref.name}`);
+    const users = ctx.schemaUsage.get(ref.key) || [];
+    if (users.length > 0) {
+      const links = users.map(label => `[${label}](${operationLink(ctx, label)})`);
+      lines.push(`*Used by ${users.length} operation${users.length === 1 ? '' : 's'}: ${links.join(', ')}*`);
+    }
+    // Object schemas have no line of their own to carry the description
+    const description = truncateDescription(ctx.compaction, ref.value?.description, 'description');
+    if (description && hasSchemaType(ref.value, 'object')) lines.push(description);
+    // Shared by requests and responses, so neither readOnly nor writeOnly fields are hidden
+    parseSchema(ref.value, ctx, lines, 0, { seen: [ref.key], nesting: 0 });
+    lines.push('');
+  }
+}
+
+/**
+ * Link target of an operation heading, relative to the file being rendered in split mode.
+ */
+function operationLink(ctx: RenderContext, label: string): string {
+  const file = ctx.operationFiles.get(label);
+  if (!file || file === ctx.currentFile) return `#${operationAnchor(label)}`;
+  const from = ctx.currentFile.split('/').slice(0, -1);
+  const to = file.split('/');
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+  return `${'../'.repeat(from.length - common)}${to.slice(common).join('/')}#${operationAnchor(label)}`;
+}
+
+// Anchors are only needed when something links to operations: the Schemas section's "Used by" lists
+function operationAnchorTag(ctx: RenderContext, label: string): string {
+  return ctx.sharing || isEnabled(ctx.compaction, 'schemas') ? `<a id="${operationAnchor(label)}"></a>` : '';
+}
+
+function pushOperationAnchor(ctx: RenderContext, lines: string[], label: string) {
+  const anchor = operationAnchorTag(ctx, label);
+  if (anchor) lines.push(anchor);
+}
+
+function joinWords(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function renderConditional(schema: any, nested: (label: string | null, sub: any, level: number) => void, depth: number) {
+  if (!schema.if) return;
+  nested('If:', schema.if, depth);
+  if (schema.then) nested('Then:', schema.then, depth);
+  if (schema.else) nested('Else:', schema.else, depth);
+}
+
+function hasObjectChildren(schema: any): boolean {
+  return !!(schema.properties || (schema.additionalProperties && typeof schema.additionalProperties === 'object')
+    || schema.patternProperties || schema.if);
+}
+
+/**
+ * Tuple (`prefixItems`) arrays are rendered as an object whose properties are the positions.
+ */
+function arrayItemsSchema(schema: any): any {
+  if (!Array.isArray(schema.prefixItems)) return schema.items;
+  const properties = Object.fromEntries(schema.prefixItems.map((item: any, i: number) => [`[${i}]`, item]));
+  return { type: 'object', properties, required: Object.keys(properties) };
 }
@@ -0,0 +1,28 @@
+import { ConversionProgress } from "../types";
+import { localConvertAndList } from "./conversionService";
+import type { WorkerMessage, WorkerRequest } from "./conversionClient";
+
+// Progress messages are throttled to this interval; the page only needs a few updates per second
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: WorkerMessage) => self.postMessage(message);
+
+/**
+ * Runs one conversion (see `convertInWorker`) and reports back to the page.
+ */
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { content, options } = event.data;
+  let lastReport = 0;
+  const onProgress = (progress: ConversionProgress) => {
+    const now = Date.now();
+    if (now - lastReport < PROGRESS_INTERVAL_MS && progress.done < progress.total) return;
+    lastReport = now;
+    post({ type: 'progress', progress });
+  };
+
+  try {
+    post({ type: 'done', ...localConvertAndList(content, options, onProgress) });
+  } catch (e: any) {
+    post({ type: 'error', message: e?.message || String(e) });
+  }
+};
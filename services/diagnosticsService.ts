@@ -0,0 +1,244 @@
+import { Diagnostic, DiagnosticSeverity } from "../types";
+import { collectOperations, HTTP_METHODS } from "./operationService";
+import { isJsonSchemaDocument } from "./specParser";
+import { RefResolver, toPointer } from "./refResolver";
+import { generateExample } from "./exampleGenerator";
+import { validateValue } from "./schemaValidator";
+import { SchemaDirection } from "./schemaKeywords";
+
+// Values under these keys are literal data, so `$ref`-looking keys inside them are not references
+const LITERAL_KEYS = ['example', 'default', 'enum', 'const'];
+
+// Keywords holding schemas by name, where those same words are property names instead
+const SCHEMA_MAP_KEYS = ['properties', 'patternProperties', 'definitions', '$defs'];
+
+// Swagger 2.0 specs are validated after normalization; map pointers back to the 2.0 locations
+const SWAGGER2_POINTERS: [string, string][] = [
+  ['/components/schemas/', '/definitions/'],
+  ['/components/parameters/', '/parameters/'],
+  ['/components/responses/', '/responses/'],
+  ['/components/securitySchemes/', '/securityDefinitions/'],
+];
+
+/**
+ * Checks a (normalized) spec for problems that would make the llm.txt incomplete or misleading.
+ * Never throws: every problem becomes a diagnostic with a JSON Pointer to its location.
+ * `exampleSeed` must match the one used for rendering so the self-checked examples are the rendered ones.
+ */
+export const validateSpec = (spec: any, resolver: RefResolver, exampleSeed?: number): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  const isSwagger2 = spec['x-original-swagger'] !== undefined;
+  const report = (severity: DiagnosticSeverity, code: string, pointer: string, message: string) => {
+    diagnostics.push(isSwagger2
+      ? { severity, code, pointer: toSwagger2Pointer(pointer), message: toSwagger2Refs(message) }
+      : { severity, code, pointer, message });
+  };
+
+  if (isJsonSchemaDocument(spec)) {
+    checkRefs(spec, resolver, report);
+    checkDefinitionExamples(spec, resolver, report, exampleSeed);
+    return diagnostics;
+  }
+
+  checkVersion(spec, report);
+  checkInfo(spec, report);
+  checkRefs(spec, resolver, report);
+  checkOperations(spec, resolver, report);
+  checkExamples(spec, resolver, report, exampleSeed);
+
+  return diagnostics;
+};
+
+type Reporter = (severity: DiagnosticSeverity, code: string, pointer: string, message: string) => void;
+
+function checkVersion(spec: any, report: Reporter) {
+  const swagger = spec['x-original-swagger'];
+  if (swagger !== undefined) {
+    if (swagger !== '2.0') report('warning', 'unknown-version', '/swagger', `Unknown Swagger version "${swagger}"; treating it as 2.0.`);
+    return;
+  }
+  if (spec.openapi === undefined) {
+    report('error', 'missing-version', '', 'Missing "openapi" or "swagger" version field; treating the document as OpenAPI 3.');
+  } else if (!/^3\.[01]\.\d+/.test(String(spec.openapi))) {
+    report('warning', 'unknown-version', '/openapi', `Unknown OpenAPI version "${spec.openapi}"; output may be incomplete.`);
+  }
+}
+
+function checkInfo(spec: any, report: Reporter) {
+  if (!spec.info || typeof spec.info !== 'object') {
+    report('error', 'missing-info', '/info', 'Missing "info" object; the API title and description fall back to defaults.');
+    return;
+  }
+  if (!spec.info.title) report('warning', 'missing-title', '/info/title', 'Missing API title.');
+  if (!spec.info.version) report('warning', 'missing-version', '/info/version', 'Missing API version.');
+  if (!spec.paths || Object.keys(spec.paths).length === 0) {
+    report('warning', 'no-paths', '/paths', 'The spec declares no paths, so no endpoints will be documented.');
+  }
+}
+
+function checkRefs(spec: any, resolver: RefResolver, report: Reporter) {
+  const visited = new Set<object>();
+  const walk = (value: any, segments: string[], schemaMap: boolean) => {
+    if (!value || typeof value !== 'object' || visited.has(value)) return;
+    visited.add(value);
+    if (!schemaMap && typeof value.$ref === 'string' && !resolver.resolve(value.$ref, value)) {
+      report('error', 'unresolved-ref', toPointer([...segments, '$ref']), `Unresolved reference "${value.$ref}".`);
+    }
+    Object.entries(value).forEach(([key, child]) => {
+      if (schemaMap || !LITERAL_KEYS.includes(key)) walk(child, [...segments, key], !schemaMap && SCHEMA_MAP_KEYS.includes(key));
+    });
+  };
+  walk(spec, [], false);
+}
+
+function checkOperations(spec: any, resolver: RefResolver, report: Reporter) {
+  const operationIds = new Map<string, string>();
+
+  collectOperations(spec, resolver).forEach(({ path, method, operation, pathItem }) => {
+    const base = ['paths', path, method];
+    const pointer = (...rest: (string | number)[]) => toPointer([...base, ...rest]);
+
+    if (operation.operationId) {
+      const first = operationIds.get(operation.operationId);
+      if (first) {
+        report('error', 'duplicate-operation-id', pointer('operationId'), `Duplicate operationId "${operation.operationId}" (also used by ${first}).`);
+      } else {
+        operationIds.set(operation.operationId, `${method.toUpperCase()} ${path}`);
+      }
+    }
+
+    // Path template parameters must be declared on the operation or its path item
+    const params = [...(pathItem.parameters || []), ...(operation.parameters || [])].map(p => resolver.deref(p) || {});
+    const declared = new Set(params.filter(p => p.in === 'path').map(p => p.name));
+    const templated = Array.from(path.matchAll(/\{([^}]+)\}/g)).map(m => m[1]);
+    templated.forEach(name => {
+      if (!declared.has(name)) {
+        report('error', 'undeclared-path-param', pointer(), `Path parameter "{${name}}" is not declared in "parameters".`);
+      }
+    });
+    declared.forEach(name => {
+      if (!templated.includes(name)) {
+        report('warning', 'unused-path-param', pointer('parameters'), `Path parameter "${name}" does not appear in the path template.`);
+      }
+    });
+
+    const responses = operation.responses;
+    // Published messages need no reply
+    if (!responses || Object.keys(responses).length === 0) {
+      if (!HTTP_METHODS.includes(method)) return;
+      report('warning', 'no-responses', pointer('responses'), 'No responses documented.');
+      return;
+    }
+    Object.entries(responses).forEach(([code, raw]) => {
+      const response = resolver.deref(raw as any);
+      if (response && !response.$ref && !response.description) {
+        report('warning', 'missing-response-description', pointer('responses', code, 'description'), `Response ${code} has no description.`);
+      }
+    });
+  });
+}
+
+/**
+ * Validates the examples the spec declares, and self-checks the ones we generate for request
+ * and response bodies. A generated example can still fail when it embeds an invalid schema-level
+ * `example`, or when the constraints contradict each other.
+ */
+function checkExamples(spec: any, resolver: RefResolver, report: Reporter, seed?: number) {
+  const checkDeclared = (holder: any, schema: any, segments: (string | number)[], label: string, direction: SchemaDirection) => {
+    if (!holder || !schema) return;
+    if (holder.example !== undefined) {
+      const errors = validateValue(holder.example, schema, resolver, direction);
+      if (errors.length > 0) report('warning', 'invalid-example', toPointer([...segments, 'example']), `Example for ${label} does not match its schema: ${summarize(errors)}`);
+    }
+    Object.entries(holder.examples || {}).forEach(([name, raw]) => {
+      const named = resolver.deref(raw as any);
+      if (named?.value === undefined) return;
+      const errors = validateValue(named.value, schema, resolver, direction);
+      if (errors.length > 0) report('warning', 'invalid-example', toPointer([...segments, 'examples', name]), `Example "${name}" for ${label} does not match its schema: ${summarize(errors)}`);
+    });
+  };
+
+  const checkContent = (content: any, segments: (string | number)[], label: string, direction: SchemaDirection) => {
+    Object.entries(content || {}).forEach(([type, media]: [string, any]) => {
+      if (!media?.schema) return;
+      checkDeclared(media, media.schema, [...segments, type], `${label} (${type})`, direction);
+      if (media.example !== undefined || media.examples) return;
+      const generated = generateExample(media.schema, resolver, { onlyRequired: false, direction, seed });
+      if (generated === undefined) return;
+      const errors = validateValue(generated, media.schema, resolver, direction);
+      if (errors.length > 0) {
+        report('info', 'unsatisfied-example', toPointer([...segments, type, 'schema']), `The example rendered for ${label} (${type}) does not match its schema: ${summarize(errors)}`);
+      }
+    });
+  };
+
+  collectOperations(spec, resolver).forEach(({ path, method, operation, pathItem }) => {
+    const name = `${method.toUpperCase()} ${path}`;
+    const checkParams = (params: any[] = [], segments: string[]) => params.forEach((raw, i) => {
+      const param = resolver.deref(raw);
+      if (param) checkDeclared(param, param.schema, [...segments, 'parameters', i], `parameter "${param.name}" of ${name}`, 'request');
+    });
+    checkParams(pathItem.parameters, ['paths', path]);
+    checkParams(operation.parameters, ['paths', path, method]);
+
+    const requestBody = resolver.deref(operation.requestBody);
+    checkContent(requestBody?.content, ['paths', path, method, 'requestBody', 'content'], `the ${name} request body`, 'request');
+    Object.entries(operation.responses || {}).forEach(([code, raw]) => {
+      const response = resolver.deref(raw as any);
+      checkContent(response?.content, ['paths', path, method, 'responses', code, 'content'], `the ${name} ${code} response`, 'response');
+    });
+  });
+
+  Object.entries(spec.components?.schemas || {}).forEach(([name, schema]: [string, any]) => {
+    if (schema?.example === undefined) return;
+    const errors = validateValue(schema.example, schema, resolver);
+    if (errors.length > 0) report('warning', 'invalid-example', toPointer(['components', 'schemas', name, 'example']), `Example of schema "${name}" does not match it: ${summarize(errors)}`);
+  });
+}
+
+/**
+ * The JSON Schema counterpart of `checkExamples`: declared `examples` and `default`s of the root
+ * schema and each definition must match it, and so must the example rendered for it (which the
+ * output leaves out otherwise).
+ */
+function checkDefinitionExamples(spec: any, resolver: RefResolver, report: Reporter, seed?: number) {
+  const schemas: [(string | number)[], string, any][] = [[[], 'the document', spec]];
+  ['$defs', 'definitions'].forEach(keyword => Object.entries(spec[keyword] || {}).forEach(([name, schema]) => {
+    schemas.push([[keyword, name], `definition "${name}"`, schema]);
+  }));
+
+  schemas.forEach(([segments, label, schema]) => {
+    if (!schema || typeof schema !== 'object') return;
+    (Array.isArray(schema.examples) ? schema.examples : []).forEach((example: any, i: number) => {
+      const errors = validateValue(example, schema, resolver);
+      if (errors.length > 0) report('warning', 'invalid-example', toPointer([...segments, 'examples', i]), `Example of ${label} does not match it: ${summarize(errors)}`);
+    });
+    if (schema.default !== undefined) {
+      const errors = validateValue(schema.default, schema, resolver);
+      if (errors.length > 0) report('warning', 'invalid-default', toPointer([...segments, 'default']), `Default of ${label} does not match it: ${summarize(errors)}`);
+    }
+    // Declared examples are rendered as they are and were checked above
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return;
+    const generated = generateExample(schema, resolver, { onlyRequired: false, seed });
+    if (generated === undefined) return;
+    const errors = validateValue(generated, schema, resolver);
+    if (errors.length > 0) {
+      report('info', 'unsatisfied-example', toPointer(segments), `No example is shown for ${label}; the generated one does not match it: ${summarize(errors)}`);
+    }
+  });
+}
+
+function summarize(errors: string[]): string {
+  return errors.length === 1 ? errors[0] : `${errors[0]} (and ${errors.length - 1} more)`;
+}
+
+function toSwagger2Pointer(pointer: string): string {
+  for (const [from, to] of SWAGGER2_POINTERS) {
+    if (pointer.startsWith(from)) return to + pointer.slice(from.length);
+  }
+  return pointer;
+}
+
+function toSwagger2Refs(message: string): string {
+  return SWAGGER2_POINTERS.reduce((text, [from, to]) => text.split(`#${from}`).join(`#${to}`), message);
+}
@@ -0,0 +1,187 @@
+import { ApiBody, ApiDocument, ApiOperation, ApiParameter, ApiResponse, OpenAPISpec } from "../types";
+import { generateExample, getDeclaredExample } from "./exampleGenerator";
+import { OperationEntry } from "./operationService";
+import { getOperationParameters, getParameterMediaType, getParameterSchema } from "./parameterService";
+import { RefResolver, ResolvedRef } from "./refResolver";
+import { isComponentSchema } from "./schemaUsageService";
+import { isHiddenFor, SchemaDirection } from "./schemaKeywords";
+import { describeSecurity, getEffectiveSecurity, listSecuritySchemes } from "./securityService";
+import { pickMediaType } from "./mediaTypeService";
+import { getEffectiveServers, resolveBaseUrl, ServerOptions } from "./serverService";
+
+/**
+ * What the model is built from: the parsed spec and the operations to include, in output order.
+ */
+export interface DocumentSource {
+  spec: OpenAPISpec;
+  resolver: RefResolver;
+  /** Picks the base URL of the document and of operations with their own `servers`. */
+  servers?: ServerOptions;
+  operations: OperationEntry[];
+  exampleSeed?: number;
+  /** Called after each operation is added, for progress reporting. */
+  onOperation?: () => void;
+}
+
+// OpenAPI-only keywords that have no meaning in plain JSON Schema
+const OPENAPI_KEYWORDS = ['nullable', 'example', 'xml', 'discriminator', 'externalDocs', 'readOnly', 'writeOnly', 'deprecated'];
+
+// Keywords whose value is a map of subschemas
+const SCHEMA_MAPS = ['properties', 'patternProperties', '$defs', 'dependentSchemas'];
+
+// Keywords whose value is a subschema or a list of them
+const SCHEMA_VALUES = ['items', 'additionalProperties', 'not', 'if', 'then', 'else', 'contains', 'propertyNames', 'unevaluatedProperties', 'unevaluatedItems'];
+const SCHEMA_LISTS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+
+/**
+ * Builds the typed document model the alternative renderers work from.
+ */
+export const buildApiDocument = ({ spec, resolver, servers, operations, exampleSeed: seed, onOperation }: DocumentSource): ApiDocument => {
+  const baseUrl = resolveBaseUrl((spec as any).servers, servers);
+  const used = new Map<string, ResolvedRef>();
+  const hasSecurity = !!spec.components?.securitySchemes || Array.isArray((spec as any).security);
+  const schema = (raw: any, direction?: SchemaDirection) => toJsonSchema(raw, resolver, direction, [], used);
+  const example = (holder: any, raw: any, direction: SchemaDirection) => {
+    const declared = getDeclaredExample(holder, resolver);
+    return declared !== undefined ? declared : generateExample(raw, resolver, { onlyRequired: false, direction, seed });
+  };
+
+  const toOperation = (entry: OperationEntry): ApiOperation => {
+    const { path, method, operation: op } = entry;
+    const security = getEffectiveSecurity(op, spec);
+    const operationUrl = resolveBaseUrl(getEffectiveServers(entry, spec), servers);
+
+    const parameters: ApiParameter[] = getOperationParameters(entry, resolver).map(param => {
+      const mediaType = getParameterMediaType(param);
+      const declared = getDeclaredExample(mediaType ? param.content[mediaType] : param, resolver);
+      return {
+        name: param.name,
+        in: param.in,
+        required: !!param.required,
+        deprecated: !!param.deprecated,
+        description: param.description,
+        schema: schema(getParameterSchema(param)),
+        example: declared,
+      };
+    });
+
+    let requestBody: ApiBody | undefined;
+    const body = resolver.deref(op.requestBody);
+    const bodyType = body ? pickMediaType(body.content || {}) : undefined;
+    if (body && bodyType) {
+      const media = body.content[bodyType];
+      requestBody = {
+        contentType: bodyType,
+        contentTypes: Object.keys(body.content),
+        required: !!body.required,
+        description: body.description,
+        schema: media?.schema ? schema(media.schema, 'request') : {},
+        example: media?.schema ? example(media, media.schema, 'request') : undefined,
+      };
+    }
+
+    const responses: ApiResponse[] = Object.entries(op.responses || {}).map(([status, raw]) => {
+      const response: any = resolver.deref(raw) || {};
+      const content = response.content || {};
+      const contentType = pickMediaType(content);
+      const media = contentType ? content[contentType] : undefined;
+      return {
+        status,
+        description: response.description,
+        contentType,
+        schema: media?.schema ? schema(media.schema, 'response') : undefined,
+        example: media?.schema ? example(media, media.schema, 'response') : undefined,
+      };
+    });
+
+    onOperation?.();
+    return {
+      id: op.operationId || `${method.toUpperCase()} ${path}`,
+      method: method.toUpperCase(),
+      path,
+      summary: op.summary,
+      description: op.description,
+      tags: op.tags || [],
+      deprecated: !!op.deprecated,
+      auth: hasSecurity && security.some(req => Object.keys(req || {}).length > 0) ? describeSecurity(security) : undefined,
+      baseUrl: operationUrl !== baseUrl ? operationUrl : undefined,
+      parameters,
+      requestBody,
+      responses,
+    };
+  };
+
+  const result: ApiDocument = {
+    title: spec.info?.title || 'API Documentation',
+    version: spec.info?.version,
+    description: spec.info?.description,
+    baseUrl,
+    auth: listSecuritySchemes(spec, resolver),
+    operations: operations.map(toOperation),
+    schemas: {},
+  };
+  // Schemas may use other component schemas, which then join the list while it is walked
+  const done = new Set<string>();
+  for (let pending = Array.from(used.values()); pending.length > 0; pending = Array.from(used.values()).filter(ref => !done.has(ref.key))) {
+    pending.forEach(ref => {
+      done.add(ref.key);
+      result.schemas[ref.name] = toJsonSchema(ref.value, resolver, undefined, [ref.key], used);
+    });
+  }
+  return result;
+};
+
+/**
+ * Turns an OpenAPI schema into self-contained JSON Schema: `$ref`s are inlined (recursion is cut
+ * with a described placeholder), `nullable` becomes a `null` type, `example` becomes `examples`
+ * and fields hidden in `direction` are dropped. Component schemas reached are recorded in `used`.
+ */
+export const toJsonSchema = (
+  schema: any,
+  resolver: RefResolver,
+  direction?: SchemaDirection,
+  seen: string[] = [],
+  used: Map<string, ResolvedRef> = new Map()
+): any => {
+  if (!schema || typeof schema !== 'object') return typeof schema === 'boolean' ? schema : {};
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolver.resolve(schema.$ref, schema);
+    if (!target) return { description: `Unresolved reference ${schema.$ref}` };
+    if (isComponentSchema(target)) used.set(target.key, target);
+    if (seen.includes(target.key)) return { type: 'object', description: `Recursive ${target.name} (see above)` };
+    const inlined = toJsonSchema(target.value, resolver, direction, [...seen, target.key], used);
+    const result = isComponentSchema(target) && !inlined.title ? { title: target.name, ...inlined } : inlined;
+    // 3.1 allows annotations next to a $ref; they describe this use and win over the target's
+    if (schema.description) result.description = schema.description;
+    return result;
+  }
+
+  const result: any = {};
+  Object.entries(schema).forEach(([key, value]: [string, any]) => {
+    if (OPENAPI_KEYWORDS.includes(key) || key.startsWith('x-')) return;
+    if (SCHEMA_MAPS.includes(key) && value && typeof value === 'object') {
+      const entries = Object.entries(value).filter(([, sub]) => key !== 'properties' || !isHiddenFor(resolver.deref(sub), direction));
+      result[key] = Object.fromEntries(entries.map(([name, sub]) => [name, toJsonSchema(sub, resolver, direction, seen, used)]));
+    } else if (SCHEMA_VALUES.includes(key) && value && typeof value === 'object') {
+      result[key] = toJsonSchema(value, resolver, direction, seen, used);
+    } else if (SCHEMA_LISTS.includes(key) && Array.isArray(value)) {
+      result[key] = value.map(sub => toJsonSchema(sub, resolver, direction, seen, used));
+    } else {
+      result[key] = value;
+    }
+  });
+
+  if (schema.nullable === true && schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.includes('null')) result.type = [...types, 'null'];
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) result.enum = [...schema.enum, null];
+  }
+  if (schema.example !== undefined && result.examples === undefined) result.examples = [schema.example];
+  if (Array.isArray(result.required) && result.properties) {
+    // Only drop the fields that were hidden; others may be declared in an allOf branch
+    result.required = result.required.filter((name: string) => name in result.properties || !(name in schema.properties));
+    if (result.required.length === 0) delete result.required;
+  }
+  return result;
+};
@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LlmProviderConfig } from '../types';
+import { MockLlmServer, startMockLlmServer } from './__fixtures__/mockLlmServer';
+import { localConvertToFiles } from './conversionService';
+import { enhanceFiles, EnhanceProgress } from './enhanceService';
+
+const petstore = readFileSync(new URL('./__fixtures__/petstore.yaml', import.meta.url), 'utf8');
+
+describe('enhanceFiles through an OpenAI-compatible server', () => {
+  let server: MockLlmServer | undefined;
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const config = (): LlmProviderConfig => ({ provider: 'openai', baseUrl: server!.baseUrl, apiKey: 'test-key', model: 'test-model' });
+
+  it('rewrites one operation section per request and streams the answers', async () => {
+    server = await startMockLlmServer(prompt => prompt.replace(/: No description$/gm, ': Only pets with one of these statuses.'));
+    const files = localConvertToFiles(petstore, { fileName: 'petstore.yaml' });
+    const progress: EnhanceProgress[] = [];
+
+    const result = await enhanceFiles(files, config(), update => progress.push(update));
+
+    expect(server.requests.map(r => /^### (.*) - /m.exec(r.body.messages[1].content)?.[1])).toEqual(['GET /pets', 'POST /pets', 'GET /pets/{petId}', 'DELETE /pets/{petId}']);
+    expect(server.requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(server.requests[0].body).toMatchObject({ model: 'test-model', stream: true });
+    expect(server.requests[0].body.messages[0].content).toContain('the API "Petstore"');
+    expect(result.skipped).toEqual([]);
+    expect(result.changes.map(change => change.operation)).toEqual(['GET /pets']);
+    expect(result.changes[0].after).toContain('(query, `array`, style: `form` (exploded), e.g. `status=available`): Only pets with one of these statuses.');
+    expect(result.files[0].content).toBe(files[0].content.replace(': No description', ': Only pets with one of these statuses.'));
+    expect(progress.length).toBeGreaterThan(server.requests.length);
+    expect(progress.at(-1)).toMatchObject({ done: 4, total: 4, operation: 'DELETE /pets/{petId}' });
+  });
+
+  it('keeps a section as generated when the answer renames a field', async () => {
+    server = await startMockLlmServer(prompt => prompt.replace('`limit`', '`max`'));
+    const files = localConvertToFiles(petstore, { fileName: 'petstore.yaml' });
+
+    const result = await enhanceFiles(files, config());
+
+    expect(result.skipped).toEqual([{ path: 'llm.txt', operation: 'GET /pets', reason: 'parameters or fields were added, removed or renamed' }]);
+    expect(result.changes).toEqual([]);
+    expect(result.files).toEqual(files.map(({ path, content }) => ({ path, content })));
+  });
+
+  it('names the provider and operation when the server fails', async () => {
+    server = await startMockLlmServer(() => 500);
+    const files = localConvertToFiles(petstore, { fileName: 'petstore.yaml' });
+
+    await expect(enhanceFiles(files, config())).rejects.toThrow(`OpenAI-compatible failed on GET /pets: ${server.baseUrl} returned HTTP 500`);
+  });
+
+  it('returns the finished sections when cancelled', async () => {
+    const controller = new AbortController();
+    server = await startMockLlmServer(prompt => {
+      if (prompt.includes('### POST /pets')) controller.abort();
+      return prompt.replace(/: No description$/gm, ': Filtered statuses.');
+    });
+    const files = localConvertToFiles(petstore, { fileName: 'petstore.yaml' });
+
+    const result = await enhanceFiles(files, config(), undefined, controller.signal);
+
+    expect(server.requests).toHaveLength(2);
+    expect(result.changes.map(change => change.operation)).toEqual(['GET /pets']);
+    expect(result.files[0].content).toContain(': Filtered statuses.');
+  });
+});
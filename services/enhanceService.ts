@@ -0,0 +1,153 @@
+import { EnhanceChange, EnhanceResult, LlmProviderConfig, OutputFile } from "../types";
+import { getLlmProvider } from "./llmProviders";
+import { HTTP_METHODS, MESSAGE_ACTIONS } from "./operationService";
+
+export interface EnhanceProgress {
+  /** The output so far: finished sections enhanced, the current one as streamed, the rest as generated. */
+  files: OutputFile[];
+  /** Operation sections finished, out of `total`. */
+  done: number;
+  total: number;
+  /** `METHOD /path` of the section being rewritten. */
+  operation: string;
+}
+
+interface Section {
+  text: string;
+  /** `METHOD /path` for operation sections; undefined for the text between them. */
+  operation?: string;
+}
+
+// Channels of message operations need not start with a slash; webhook names (no slash) are not operations
+const OPERATION_HEADING = new RegExp(`^### ((?:${HTTP_METHODS.map(m => m.toUpperCase()).join('|')}) /\\S*|(?:${MESSAGE_ACTIONS.map(m => m.toUpperCase()).join('|')}) \\S+) - `);
+
+const SYSTEM_PROMPT = `You improve API reference documentation written in Markdown for LLMs.
+You receive one endpoint section of the API "{title}". In it:
+- Improve the summary after " - " in the "###" heading if it is "No summary", vague or just an identifier.
+- Replace every "No description" placeholder, and add a description where a field or parameter has none, with one short, accurate sentence inferred from the names, types and context.
+Change nothing else. Keep every heading, list item, name, type, requirement marker, link and code block exactly as it is, in the same order.
+Reply with the complete section only: no commentary and no surrounding code fence.`;
+
+/**
+ * Asks a model to improve summaries and fill missing descriptions in deterministic output,
+ * one operation section at a time so any spec size works. Answers that change anything but
+ * prose (headings, field names, code blocks) are discarded and the section is kept as generated.
+ * Cancelling through `signal` returns what was finished; provider errors are thrown.
+ */
+export const enhanceFiles = async (
+  files: OutputFile[],
+  config: LlmProviderConfig,
+  onProgress: (progress: EnhanceProgress) => void = () => {},
+  signal?: AbortSignal
+): Promise<EnhanceResult> => {
+  const provider = getLlmProvider(config.provider);
+  const title = /^# (.*)$/m.exec(files[0]?.content || '')?.[1] || 'API';
+  const system = SYSTEM_PROMPT.replace('{title}', title);
+  const split = files.map(file => splitSections(file.content));
+  const total = split.reduce((sum, sections) => sum + sections.filter(s => s.operation).length, 0);
+  const changes: EnhanceChange[] = [];
+  const skipped: EnhanceResult['skipped'] = [];
+  const current = () => files.map((file, i) => ({ path: file.path, content: split[i].map(s => s.text).join('\n') }));
+  let done = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    for (const section of split[i]) {
+      if (!section.operation || signal?.aborted) continue;
+      const before = section.text;
+      const operation = section.operation;
+      let answer = '';
+      try {
+        for await (const delta of provider.stream({ system, prompt: before }, config, signal)) {
+          if (signal?.aborted) break;
+          answer += delta;
+          section.text = answer;
+          onProgress({ files: current(), done, total, operation });
+        }
+      } catch (e: any) {
+        section.text = before;
+        if (signal?.aborted) break;
+        throw new Error(`${provider.label} failed on ${operation}: ${e.message || e}`);
+      }
+      if (signal?.aborted) {
+        section.text = before;
+        break;
+      }
+
+      const after = unwrapFence(answer.trim());
+      const problem = checkAnswer(before, after, operation);
+      section.text = problem ? before : after;
+      if (problem) skipped.push({ path: files[i].path, operation, reason: problem });
+      else if (after !== before) changes.push({ path: files[i].path, operation, before, after });
+      done++;
+      onProgress({ files: current(), done, total, operation });
+    }
+  }
+
+  return { files: current(), changes, skipped };
+};
+
+/**
+ * Splits a file into operation sections (from the `### METHOD /path` heading to its closing
+ * `---`) and the text between them; joining the texts with newlines restores the file.
+ */
+function splitSections(content: string): Section[] {
+  const sections: Section[] = [];
+  let lines: string[] = [];
+  let operation: string | undefined;
+  let inFence = false;
+  const flush = () => {
+    if (lines.length > 0) sections.push({ text: lines.join('\n'), operation });
+    lines = [];
+    operation = undefined;
+  };
+
+  content.split('\n').forEach(line => {
+    const heading = inFence ? null : OPERATION_HEADING.exec(line);
+    if (heading) {
+      flush();
+      operation = heading[1];
+    }
+    if (line.trimStart().startsWith('```')) inFence = !inFence;
+    lines.push(line);
+    if (!inFence && operation && line === '---') flush();
+  });
+  flush();
+  return sections;
+}
+
+function unwrapFence(text: string): string {
+  const fenced = /^```(?:markdown|md)?\n([\s\S]*)\n```$/.exec(text);
+  return fenced ? fenced[1].trim() : text;
+}
+
+/**
+ * Why a rewritten section cannot be used, or null when only prose changed.
+ */
+function checkAnswer(before: string, after: string, operation: string): string | null {
+  if (!after.startsWith(`### ${operation} - `)) return 'the endpoint heading was changed';
+  const original = outline(before);
+  const rewritten = outline(after);
+  if (original.headings.join('\n') !== rewritten.headings.join('\n')) return 'headings were added, removed or renamed';
+  if (original.items.join('\n') !== rewritten.items.join('\n')) return 'parameters or fields were added, removed or renamed';
+  if (original.code.join('\n') !== rewritten.code.join('\n')) return 'a code block was changed';
+  return null;
+}
+
+// The parts of a section the model must not touch: sub-headings, list item names and code blocks
+function outline(text: string): { headings: string[]; items: string[]; code: string[] } {
+  const result = { headings: [] as string[], items: [] as string[], code: [] as string[] };
+  let inFence = false;
+  text.split('\n').forEach(line => {
+    const fence = line.trimStart().startsWith('```');
+    if (fence) inFence = !inFence;
+    if (inFence || fence) {
+      result.code.push(line.trimEnd());
+    } else if (/^#{4,} /.test(line)) {
+      result.headings.push(line.trimEnd());
+    } else {
+      const item = /^\s*- `[^`]+`/.exec(line);
+      if (item) result.items.push(item[0]);
+    }
+  });
+  return result;
+}
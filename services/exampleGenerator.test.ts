@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { generateExample } from './exampleGenerator';
+import { createRefResolver } from './refResolver';
+
+const generate = (schema: any) => generateExample(schema, createRefResolver({}), { onlyRequired: false });
+
+describe('generateExample', () => {
+  it('fits format samples to minLength and maxLength', () => {
+    expect(generate({ type: 'string', format: 'email', minLength: 20 })).toBe('xxxxuser@example.com');
+    expect(generate({ type: 'string', format: 'email', maxLength: 8 })).toBe('a@b.io');
+    expect(generate({ type: 'string', format: 'uri', minLength: 25 })).toBe('https://example.com/xxxxx');
+    expect(generate({ type: 'string', format: 'uri', maxLength: 12 })).toBe('http://a.io');
+    expect(generate({ type: 'string', format: 'uuid', maxLength: 8 })).toHaveLength(8);
+    expect(generate({ type: 'string', format: 'date-time', minLength: 10, maxLength: 30 })).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it('keeps uniqueItems arrays free of repeated values of any type', () => {
+    expect(generate({ type: 'array', minItems: 3, uniqueItems: true, items: { type: 'string', example: 'a' } })).toEqual(['a', 'a2', 'a3']);
+    expect(generate({ type: 'array', minItems: 3, uniqueItems: true, items: { type: 'integer', example: 7 } })).toEqual([7]);
+    expect(generate({ type: 'array', minItems: 2, uniqueItems: true, items: { type: 'object', example: { id: 1 } } })).toEqual([{ id: 1 }]);
+    expect(generate({ type: 'array', minItems: 2, items: { type: 'integer', example: 7 } })).toEqual([7, 7]);
+  });
+});
@@ -0,0 +1,320 @@
+import { RefResolver, ResolvedRef } from "./refResolver";
+import { samplePattern } from "./patternSampler";
+import { getPrimaryType, isHiddenFor, SchemaDirection } from "./schemaKeywords";
+
+export const DEFAULT_EXAMPLE_SEED = 1;
+
+export interface ExampleOptions {
+  onlyRequired: boolean;
+  /** Leaves out read-only fields from requests and write-only ones from responses; unset keeps both. */
+  direction?: SchemaDirection;
+  /** Seed for made-up values (numbers, ids, dates...); the same seed always yields the same example. */
+  seed?: number;
+}
+
+// Midnight UTC, 2024-01-01: generated dates are offsets from here so they never depend on the clock
+const BASE_DATE = Date.UTC(2024, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const FORMAT_EXAMPLES: Record<string, (random: () => number) => string> = {
+  'date-time': random => dateFrom(random).toISOString().replace('.000Z', 'Z'),
+  date: random => dateFrom(random).toISOString().slice(0, 10),
+  time: random => dateFrom(random).toISOString().slice(11, 19) + 'Z',
+  email: () => 'user@example.com',
+  'idn-email': () => 'user@example.com',
+  uuid: random => uuidFrom(random),
+  ipv4: random => `192.0.2.${1 + Math.floor(random() * 254)}`,
+  ipv6: random => `2001:db8::${(1 + Math.floor(random() * 0xfffe)).toString(16)}`,
+  hostname: () => 'api.example.com',
+  uri: () => 'https://example.com',
+  url: () => 'https://example.com',
+  'uri-reference': () => '/example',
+  byte: () => 'ZXhhbXBsZQ==',
+  duration: () => 'P1D',
+};
+
+// Shortest samples of the formats that have room to shrink, for tight `maxLength`s
+const SHORT_FORMAT_EXAMPLES: Record<string, string> = {
+  email: 'a@b.io',
+  'idn-email': 'a@b.io',
+  hostname: 'a.io',
+  uri: 'http://a.io',
+  url: 'http://a.io',
+  'uri-reference': '/a',
+};
+
+/**
+ * Returns the example a parameter or media type declares itself: `example`, or the value of the
+ * first named entry in `examples` (which may be a `$ref` into `components.examples`).
+ */
+export const getDeclaredExample = (holder: any, resolver: RefResolver): any => {
+  if (!holder || typeof holder !== 'object') return undefined;
+  if (holder.example !== undefined) return holder.example;
+  for (const raw of Object.values(holder.examples || {})) {
+    const named = resolver.deref(raw as any);
+    if (named?.value !== undefined) return named.value;
+  }
+  return undefined;
+};
+
+interface ExampleState {
+  resolver: RefResolver;
+  options: ExampleOptions;
+  /** Refs currently being expanded, so recursive schemas terminate. */
+  seen: string[];
+  /** Location in the generated value; made-up values are seeded by it so they are stable across calls. */
+  path: string;
+  /** The ref whose target is being generated, used to fill in discriminator values. */
+  ref?: ResolvedRef;
+}
+
+/**
+ * Generates a JSON example that validates against the schema. Values the spec provides
+ * (`const`, `example`, `examples`, `default`, `enum`) win; everything else is derived from
+ * the constraints, with made-up values drawn from a PRNG seeded by `options.seed` and the
+ * field's location, so the output is identical on every run.
+ */
+export const generateExample = (schema: any, resolver: RefResolver, options: ExampleOptions): any =>
+  build(schema, { resolver, options, seen: [], path: '' });
+
+function build(schema: any, state: ExampleState): any {
+  // The `true` schema accepts anything, null included; `false` accepts nothing
+  if (schema === true) return null;
+  if (!schema || typeof schema !== 'object') return undefined;
+  const { resolver, options } = state;
+
+  if (schema.$ref) {
+    const target = resolver.resolve(schema.$ref, schema);
+    if (!target || state.seen.includes(target.key)) return undefined;
+    return build(target.value, { ...state, seen: [...state.seen, target.key], ref: target });
+  }
+
+  if (schema.const !== undefined) return schema.const;
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+
+  if (Array.isArray(schema.allOf)) return buildAllOf(schema, state);
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    // Skip `{ type: 'null' }` alternatives; a real value says more than null
+    const variant = variants.find((v: any) => getPrimaryType(resolver.deref(v)) !== undefined || resolver.deref(v)?.properties) || variants[0];
+    const value = build(variant, { ...state, ref: undefined });
+    const propertyName = schema.discriminator?.propertyName;
+    if (propertyName && isPlainObject(value) && variant.$ref) {
+      const target = resolver.resolve(variant.$ref, variant);
+      if (target) value[propertyName] = discriminatorValue(schema.discriminator, target, resolver, schema);
+    }
+    return value;
+  }
+
+  const type = getPrimaryType(schema);
+  if (type === 'object') return buildObject(schema, state);
+  if (type === 'array') return buildArray(schema, state);
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum.find((value: any) => value !== null) ?? schema.enum[0];
+  }
+  switch (type) {
+    case 'string':
+      return buildString(schema, state);
+    case 'integer':
+    case 'number':
+      return buildNumber(schema, type === 'integer', randomFor(state));
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Merges the `allOf` parts (plus the schema's own properties). A part carrying a discriminator
+ * means this is an inheritance-style subtype, so the discriminator is set to this schema's name.
+ */
+function buildAllOf(schema: any, state: ExampleState): any {
+  const { resolver } = state;
+  const { allOf, ...own } = schema;
+  const parts = allOf.map((sub: any) => build(sub, { ...state, ref: undefined }));
+  if (own.properties || own.type) parts.push(build(own, { ...state, ref: undefined }));
+
+  const objects = parts.filter(isPlainObject);
+  if (objects.length === 0) return parts.find((part: any) => part !== undefined);
+  const merged = Object.assign({}, ...objects);
+
+  if (state.ref) {
+    allOf.forEach((sub: any) => {
+      const parent = resolver.deref(sub);
+      const propertyName = parent?.discriminator?.propertyName;
+      if (propertyName) merged[propertyName] = discriminatorValue(parent.discriminator, state.ref!, resolver, parent);
+    });
+  }
+  return merged;
+}
+
+function buildObject(schema: any, state: ExampleState): Record<string, any> {
+  const { resolver, options } = state;
+  const obj: Record<string, any> = {};
+  const props = schema.properties || {};
+  const required: string[] = schema.required || [];
+
+  Object.entries(props).forEach(([key, val]: [string, any]) => {
+    if (options.onlyRequired && !required.includes(key)) return;
+    if (isHiddenFor(resolver.deref(val), options.direction)) return;
+    const value = build(val, child(state, key));
+    if (value !== undefined) obj[key] = value;
+  });
+
+  // if/then: a value matching `if` must also satisfy `then`
+  if (schema.if && schema.then) {
+    const conditional = build({ ...schema.if, ...schema.then, type: 'object' }, { ...state, ref: undefined });
+    if (isPlainObject(conditional)) Object.assign(obj, conditional);
+  }
+
+  const extra = schema.additionalProperties;
+  if (extra && typeof extra === 'object') {
+    const wanted = Math.max(schema.minProperties || 0, options.onlyRequired || Object.keys(props).length > 0 ? 0 : 1);
+    for (let i = 1; Object.keys(obj).length < wanted; i++) {
+      const value = build(extra, child(state, `additionalProp${i}`));
+      if (value === undefined) break;
+      obj[`additionalProp${i}`] = value;
+    }
+  }
+  return obj;
+}
+
+function buildArray(schema: any, state: ExampleState): any[] {
+  if (Array.isArray(schema.prefixItems)) {
+    return schema.prefixItems.map((item: any, i: number) => build(item, child(state, String(i))) ?? null);
+  }
+  const count = Math.min(Math.max(schema.minItems || 0, 1), schema.maxItems ?? Infinity);
+  const items: any[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < count; i++) {
+    let item = build(schema.items, child(state, String(i)));
+    if (item === undefined) break;
+    // Spec-provided item examples repeat verbatim; number strings and drop other repeats to keep `uniqueItems` satisfied
+    if (schema.uniqueItems && seen.has(JSON.stringify(item))) {
+      if (typeof item !== 'string') continue;
+      item = `${item}${i + 1}`;
+    }
+    seen.add(JSON.stringify(item));
+    items.push(item);
+  }
+  return items;
+}
+
+function buildString(schema: any, state: ExampleState): string {
+  const random = randomFor(state);
+  const min = schema.minLength ?? 0;
+  const max = schema.maxLength ?? Infinity;
+  const fits = (value: string) => value.length >= min && value.length <= max;
+
+  const formatted = FORMAT_EXAMPLES[schema.format]?.(random);
+  if (formatted !== undefined && !schema.pattern) return fitFormatted(formatted, schema.format, min, max);
+  if (schema.pattern) {
+    const sampled = samplePattern(schema.pattern, random, fits);
+    if (sampled !== undefined) return sampled;
+  }
+
+  // Stretch or cut the placeholder to the allowed length
+  const base = 'string';
+  const length = Math.min(Math.max(base.length, min), max);
+  return base.repeat(Math.ceil(length / base.length) || 1).slice(0, length);
+}
+
+// Stretches or cuts a format sample to the length limits, keeping it in format where the format allows
+function fitFormatted(value: string, format: string, min: number, max: number): string {
+  if (value.length > max) value = SHORT_FORMAT_EXAMPLES[format] && SHORT_FORMAT_EXAMPLES[format].length <= max ? SHORT_FORMAT_EXAMPLES[format] : value.slice(0, max);
+  const missing = min - value.length;
+  if (missing <= 0) return value;
+  // Names grow at the front (`xxuser@example.com`), URLs by a path, everything else at the end
+  if (format === 'email' || format === 'idn-email' || format === 'hostname') return `${'x'.repeat(missing)}${value}`;
+  if (format === 'uri' || format === 'url') return `${value}/${'x'.repeat(missing - 1)}`;
+  return `${value}${'x'.repeat(missing)}`;
+}
+
+/**
+ * Picks a number inside the declared bounds (3.0 boolean or 3.1 numeric exclusives) that is a
+ * multiple of `multipleOf`. Whole numbers are preferred even for `number` when the range allows.
+ */
+function buildNumber(schema: any, integer: boolean, random: () => number): number {
+  let low: number | undefined = schema.minimum;
+  let high: number | undefined = schema.maximum;
+  let lowExclusive = schema.exclusiveMinimum === true;
+  let highExclusive = schema.exclusiveMaximum === true;
+  if (typeof schema.exclusiveMinimum === 'number' && (low === undefined || schema.exclusiveMinimum >= low)) {
+    [low, lowExclusive] = [schema.exclusiveMinimum, true];
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && (high === undefined || schema.exclusiveMaximum <= high)) {
+    [high, highExclusive] = [schema.exclusiveMaximum, true];
+  }
+  if (low === undefined && high === undefined) [low, high] = [1, 100];
+  else if (low === undefined) low = high! >= 0 ? Math.max(0, high! - 100) : high! - 100;
+  else if (high === undefined) high = low + 100;
+
+  const step = schema.multipleOf || 1;
+  const first = lowExclusive ? Math.floor(low! / step) + 1 : Math.ceil(low! / step);
+  const last = highExclusive ? Math.ceil(high! / step) - 1 : Math.floor(high! / step);
+  if (first <= last && (integer ? Number.isInteger(step) : true)) {
+    return roundOff((first + Math.floor(random() * (last - first + 1))) * step);
+  }
+  if (integer) return lowExclusive ? Math.floor(low!) + 1 : Math.ceil(low!);
+  return roundOff((low! + high!) / 2);
+}
+
+/**
+ * The discriminator value for a subtype: the `mapping` key pointing at it, else its schema name.
+ */
+function discriminatorValue(discriminator: any, target: ResolvedRef, resolver: RefResolver, holder: any): string {
+  const mapped = Object.entries(discriminator.mapping || {}).find(([, ref]) => {
+    const value = String(ref);
+    return value === target.name || resolver.resolve(value, holder)?.key === target.key;
+  });
+  return mapped ? mapped[0] : target.name;
+}
+
+function child(state: ExampleState, segment: string): ExampleState {
+  return { ...state, path: `${state.path}/${segment}`, ref: undefined };
+}
+
+function randomFor(state: ExampleState): () => number {
+  return createRandom(`${state.options.seed ?? DEFAULT_EXAMPLE_SEED}:${state.path}`);
+}
+
+/**
+ * mulberry32 seeded with an FNV-1a hash of `key`.
+ */
+function createRandom(key: string): () => number {
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) hash = Math.imul(hash ^ key.charCodeAt(i), 16777619);
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dateFrom(random: () => number): Date {
+  return new Date(BASE_DATE + Math.floor(random() * 365) * DAY + Math.floor(random() * 24) * 60 * 60 * 1000);
+}
+
+function uuidFrom(random: () => number): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = (8 + Math.floor(random() * 4)).toString(16);
+  const s = hex.join('');
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+}
+
+function roundOff(value: number): number {
+  return Number(value.toPrecision(12));
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,111 @@
+import { LlmProviderConfig } from "../types";
+import { geminiProvider } from "./geminiService";
+
+/**
+ * One model call: fixed instructions plus the text to work on.
+ */
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  /** Base URL for HTTP providers; shown as the placeholder of the URL field. */
+  defaultBaseUrl?: string;
+  /** Streams the answer as text deltas. */
+  stream(request: LlmRequest, config: LlmProviderConfig, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API with `stream: true`
+ * (OpenAI, Azure OpenAI, Ollama, vLLM, LM Studio...).
+ */
+const openAiCompatible: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  async *stream({ system, prompt }, config, signal) {
+    const baseUrl = (config.baseUrl || openAiCompatible.defaultBaseUrl!).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model || openAiCompatible.defaultModel,
+        stream: true,
+        temperature: 0.1,
+        messages: [{ role: 'system', content: system }, { role: 'user', content: prompt }],
+      }),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${baseUrl} returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    // Server-sent events: one `data: {json}` line per delta, ending with `data: [DONE]`
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data) continue;
+        if (data === '[DONE]') return;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  },
+};
+
+const MOCK_VERBS: Record<string, string> = { get: 'Get', post: 'Create', put: 'Replace', patch: 'Update', delete: 'Delete' };
+
+/**
+ * Offline stand-in for trying the flow and for tests: fills placeholders with text
+ * derived from the section itself, streamed in small pieces.
+ */
+const mock: LlmProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'mock',
+  async *stream({ prompt }) {
+    const answer = prompt
+      .replace(/^(### ([A-Z]+) (\S+)) - No summary$/m, (_, heading, method, path) => {
+        const resource = path.split('/').filter((s: string) => s && !s.startsWith('{')).pop() || 'resource';
+        return `${heading} - ${MOCK_VERBS[method.toLowerCase()] || method} ${resource}`;
+      })
+      .replace(/^(\s*- `([^`]+)` .*): No description$/gm, (_, item, name) => `${item}: The \`${name}\` value.`);
+    for (let i = 0; i < answer.length; i += 40) yield answer.slice(i, i + 40);
+  },
+};
+
+const providers = new Map<string, LlmProvider>(
+  [geminiProvider, openAiCompatible, mock].map(provider => [provider.id, provider])
+);
+
+/**
+ * Registers (or replaces) a model provider for the AI enhancement step.
+ */
+export const registerLlmProvider = (provider: LlmProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getLlmProviders = (): LlmProvider[] => Array.from(providers.values());
+
+export const getLlmProvider = (id: string): LlmProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown AI provider "${id}". Expected one of: ${Array.from(providers.keys()).join(', ')}`);
+  return provider;
+};
@@ -0,0 +1,90 @@
+/**
+ * One block of the Markdown this app generates, with the 1-based output line it starts on.
+ */
+export type MarkdownBlock =
+  | { kind: 'heading'; line: number; level: number; text: string; id?: string }
+  | { kind: 'paragraph'; line: number; depth: number; text: string }
+  | { kind: 'item'; line: number; depth: number; text: string }
+  | { kind: 'quote'; line: number; text: string }
+  | { kind: 'code'; line: number; depth: number; language: string; code: string }
+  | { kind: 'rule'; line: number };
+
+/**
+ * A piece of a line of text: plain, `code`, **strong**, *emphasis* or a [link](href).
+ */
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'strong'; children: MarkdownInline[] }
+  | { kind: 'emphasis'; children: MarkdownInline[] }
+  | { kind: 'link'; href: string; children: MarkdownInline[] };
+
+// `<a id="op-get-pets"></a>` on its own line, naming the heading below it
+const ANCHOR = /^<a id="([^"]+)"><\/a>$/;
+
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Splits generated Markdown into blocks: headings (with the anchor above them as their id, the
+ * block then starting at the anchor's line), list items and indented lines with their nesting
+ * depth, fenced code, quotes and rules. Covers the subset the llm.txt layouts use rather than all
+ * of CommonMark; every other line is a paragraph.
+ */
+export const parseMarkdownBlocks = (text: string): MarkdownBlock[] => {
+  const lines = text.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let anchor: { id: string; line: number } | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const indent = line.length - line.trimStart().length;
+    const trimmed = line.trim();
+    const fence = /^(`{3,})(.*)$/.exec(trimmed);
+    const anchorMatch = ANCHOR.exec(trimmed);
+
+    if (fence) {
+      // Indented fences (response examples) close at the same marker; their lines lose that indent
+      const code: string[] = [];
+      const start = i;
+      while (++i < lines.length && lines[i].trim() !== fence[1]) code.push(lines[i].slice(Math.min(indent, lines[i].length - lines[i].trimStart().length)));
+      blocks.push({ kind: 'code', line: start + 1, depth: Math.floor(indent / 2), language: fence[2].trim(), code: code.join('\n') });
+    } else if (anchorMatch) {
+      anchor = { id: anchorMatch[1], line: i + 1 };
+      continue;
+    } else if (trimmed === '') {
+      // Blank lines only separate blocks
+    } else if (/^#{1,6} /.test(trimmed) && indent === 0) {
+      const level = trimmed.indexOf(' ');
+      blocks.push({ kind: 'heading', line: anchor?.line ?? i + 1, level, text: trimmed.slice(level + 1), ...(anchor ? { id: anchor.id } : {}) });
+    } else if (/^(-{3,}|\*{3,})$/.test(trimmed)) {
+      blocks.push({ kind: 'rule', line: i + 1 });
+    } else if (trimmed.startsWith('> ') || trimmed === '>') {
+      blocks.push({ kind: 'quote', line: i + 1, text: trimmed.slice(2) });
+    } else if (/^[-*] /.test(trimmed)) {
+      blocks.push({ kind: 'item', line: i + 1, depth: Math.floor(indent / 2), text: trimmed.slice(2) });
+    } else {
+      blocks.push({ kind: 'paragraph', line: i + 1, depth: Math.floor(indent / 2), text: trimmed });
+    }
+    anchor = undefined;
+  }
+  return blocks;
+};
+
+/**
+ * Splits a line of text into plain, code, strong, emphasis and link pieces.
+ */
+export const parseMarkdownInline = (text: string): MarkdownInline[] => {
+  const pieces: MarkdownInline[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, strong, emphasis, label, href] = match;
+    if (match.index! > cursor) pieces.push({ kind: 'text', text: text.slice(cursor, match.index) });
+    if (code !== undefined) pieces.push({ kind: 'code', text: code });
+    else if (strong !== undefined) pieces.push({ kind: 'strong', children: parseMarkdownInline(strong) });
+    else if (emphasis !== undefined) pieces.push({ kind: 'emphasis', children: parseMarkdownInline(emphasis) });
+    else pieces.push({ kind: 'link', href, children: parseMarkdownInline(label) });
+    cursor = match.index! + whole.length;
+  }
+  if (cursor < text.length) pieces.push({ kind: 'text', text: text.slice(cursor) });
+  return pieces;
+};
@@ -0,0 +1,173 @@
+import { serializeParameter } from "./parameterService";
+import { RefResolver } from "./refResolver";
+import { hasSchemaType } from "./schemaKeywords";
+
+export type MediaKind = 'json' | 'xml' | 'form' | 'multipart' | 'event-stream' | 'text' | 'binary';
+
+/** Code fence language for examples of each kind. */
+export const MEDIA_FENCES: Record<MediaKind, string> = {
+  json: 'json',
+  xml: 'xml',
+  form: 'text',
+  multipart: 'text',
+  'event-stream': 'text',
+  text: 'text',
+  binary: 'text',
+};
+
+// Boundary used in multipart examples
+const BOUNDARY = 'boundary';
+
+export interface MediaGroup {
+  /** Media types sharing one schema, in declaration order. */
+  mediaTypes: string[];
+  schema: any;
+}
+
+/**
+ * How a body of this media type is written: parameters such as `charset` are ignored and
+ * `*` wildcards count as JSON, the format APIs most often send.
+ */
+export const getMediaKind = (mediaType: string): MediaKind => {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  if (type === '*/*' || type.includes('json')) return 'json';
+  if (type.endsWith('/xml') || type.endsWith('+xml')) return 'xml';
+  if (type === 'application/x-www-form-urlencoded') return 'form';
+  if (type.startsWith('multipart/')) return 'multipart';
+  if (type === 'text/event-stream') return 'event-stream';
+  if (type.startsWith('text/') || type.endsWith('yaml') || type === 'application/graphql') return 'text';
+  return 'binary';
+};
+
+/**
+ * The media type used for snippets: JSON, then `*\/*`, then the first with a schema, then the first.
+ */
+export const pickMediaType = (content: Record<string, any>): string | undefined =>
+  ['application/json', '*/*'].find(type => content[type]?.schema)
+    || Object.keys(content).find(type => content[type]?.schema)
+    || Object.keys(content)[0];
+
+/**
+ * Groups the entries of a `content` map by schema, so a body offered as both JSON and XML is
+ * described once.
+ */
+export const groupMediaTypes = (content: Record<string, any>): MediaGroup[] => {
+  const groups = new Map<string, MediaGroup>();
+  Object.entries(content).forEach(([mediaType, media]) => {
+    const key = media?.schema ? JSON.stringify(media.schema) : `none ${mediaType}`;
+    const group = groups.get(key);
+    if (group) group.mediaTypes.push(mediaType);
+    else groups.set(key, { mediaTypes: [mediaType], schema: media?.schema });
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Whether a schema stands for file content rather than a value: binary or base64 strings and
+ * strings with a `contentMediaType` or `contentEncoding`.
+ */
+export const isBinarySchema = (schema: any): boolean =>
+  !!schema && hasSchemaType(schema, 'string')
+    && (schema.format === 'binary' || schema.format === 'byte' || !!schema.contentEncoding || !!schema.contentMediaType);
+
+/**
+ * Whether a multipart field is sent as file parts: a binary schema, or an array of them (one
+ * part per file).
+ */
+export const isFileField = (schema: any, resolver: RefResolver): boolean => {
+  const resolved = resolver.deref(schema);
+  return isBinarySchema(resolved) || (hasSchemaType(resolved, 'array') && isBinarySchema(resolver.deref(resolved.items)));
+};
+
+/**
+ * Splits a form body into the name/value pairs it is sent as, following each field's `encoding`
+ * style and explode. URL-encoded forms default to exploded `form` style, so arrays repeat the
+ * name and objects use their own keys; multipart forms repeat a part per array item and send
+ * objects as JSON unless the encoding declares a style.
+ */
+export const serializeFormFields = (value: any, encoding: Record<string, any> | undefined, multipart = false): [string, string][] => {
+  const text = (v: any) => (typeof v === 'string' ? v : JSON.stringify(v));
+  const entries = value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : [];
+  return entries.flatMap(([name, v]): [string, string][] => {
+    const { style, explode } = encoding?.[name] || {};
+    if (multipart && !style) return Array.isArray(v) ? v.map(item => [name, text(item)]) : [[name, text(v)]];
+    return serializeParameter({ name, in: 'query', style, explode }, v);
+  });
+};
+
+/**
+ * Writes an example value the way it goes over the wire for the media type: JSON, XML (honouring
+ * the schema's `xml` names, attributes and wrapping), a form query string, a multipart body
+ * (with the part content types from `encoding`), server-sent events or plain text.
+ * Returns undefined for raw binary content, which has no readable example.
+ */
+export const formatExample = (value: any, mediaType: string, media: any, resolver: RefResolver): string | undefined => {
+  const text = (v: any) => (typeof v === 'string' ? v : JSON.stringify(v));
+
+  switch (getMediaKind(mediaType)) {
+    case 'json':
+      return JSON.stringify(value, null, 2);
+    case 'xml':
+      return toXml(value, media?.schema, resolver, xmlRootName(media?.schema, resolver), 0, true).join('\n');
+    case 'form':
+      return new URLSearchParams(serializeFormFields(value, media?.encoding)).toString();
+    case 'multipart': {
+      const properties = resolver.deref(media?.schema)?.properties || {};
+      const parts = serializeFormFields(value, media?.encoding, true).map(([name, v]) => {
+        const file = isFileField(properties[name], resolver);
+        const partType = media?.encoding?.[name]?.contentType?.split(',')[0].trim();
+        return [
+          `--${BOUNDARY}`,
+          `Content-Disposition: form-data; name="${name}"${file ? `; filename="${name}.bin"` : ''}`,
+          ...(partType ? [`Content-Type: ${partType}`] : file ? ['Content-Type: application/octet-stream'] : []),
+          '',
+          file ? '<file content>' : v,
+        ].join('\n');
+      });
+      return [...parts, `--${BOUNDARY}--`].join('\n');
+    }
+    case 'event-stream':
+      return (Array.isArray(value) ? value : [value]).map(event => `data: ${text(event)}`).join('\n\n');
+    case 'text':
+      return text(value);
+    default:
+      return undefined;
+  }
+};
+
+function xmlRootName(schema: any, resolver: RefResolver): string {
+  const named = resolver.deref(schema)?.xml?.name;
+  if (named) return named;
+  return (schema?.$ref && resolver.resolve(schema.$ref, schema)?.name) || 'root';
+}
+
+// Lines of the element(s) for a value; arrays repeat the element unless `xml.wrapped` (always at the root)
+function toXml(value: any, schema: any, resolver: RefResolver, name: string, level: number, root = false): string[] {
+  const resolved = resolver.deref(schema) || {};
+  const pad = '  '.repeat(level);
+  const tag = resolved.xml?.name || name;
+
+  if (Array.isArray(value)) {
+    const itemSchema = resolver.deref(resolved.items) || {};
+    const wrapped = resolved.xml?.wrapped || root;
+    const items = value.flatMap(item => toXml(item, itemSchema, resolver, itemSchema.xml?.name || tag, wrapped ? level + 1 : level));
+    return wrapped ? [`${pad}<${tag}>`, ...items, `${pad}</${tag}>`] : items;
+  }
+  if (value && typeof value === 'object') {
+    const properties = resolved.properties || {};
+    const attributes: string[] = [];
+    const children: string[] = [];
+    Object.entries(value).forEach(([key, v]) => {
+      const property = resolver.deref(properties[key]) || {};
+      if (property.xml?.attribute) attributes.push(` ${property.xml.name || key}="${escapeXml(String(v))}"`);
+      else children.push(...toXml(v, properties[key], resolver, key, level + 1));
+    });
+    if (children.length === 0) return [`${pad}<${tag}${attributes.join('')}/>`];
+    return [`${pad}<${tag}${attributes.join('')}>`, ...children, `${pad}</${tag}>`];
+  }
+  return [`${pad}<${tag}>${escapeXml(value === null || value === undefined ? '' : String(value))}</${tag}>`];
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
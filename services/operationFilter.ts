@@ -0,0 +1,44 @@
+import { OperationFilter } from "../types";
+import { OperationEntry } from "./operationService";
+
+export const operationName = ({ path, method }: OperationEntry): string => `${method.toUpperCase()} ${path}`;
+
+/**
+ * Whether the filter's rules keep an operation. Deselected operations (`excludeOperations`)
+ * are not considered, so callers can still show them as selectable.
+ */
+export const matchesFilterRules = (entry: OperationEntry, filter: OperationFilter = {}): boolean => {
+  const { path, method, operation, pathItem } = entry;
+  const tags: string[] = operation.tags || [];
+
+  if (filter.includeTags?.length && !tags.some(tag => filter.includeTags!.includes(tag))) return false;
+  if (filter.excludeTags?.some(tag => tags.includes(tag))) return false;
+  if (filter.includePaths?.length && !filter.includePaths.some(glob => globToRegExp(glob).test(path))) return false;
+  if (filter.excludePaths?.some(glob => globToRegExp(glob).test(path))) return false;
+  if (filter.methods?.length && !filter.methods.includes(method)) return false;
+  if (filter.excludeDeprecated && operation.deprecated) return false;
+  if (filter.excludeExtensions?.some(name => operation[name] || pathItem[name])) return false;
+  return true;
+};
+
+/**
+ * The operations a filter keeps, in their original order.
+ */
+export const filterOperations = (entries: OperationEntry[], filter?: OperationFilter): OperationEntry[] => {
+  if (!filter) return entries;
+  const excluded = filter.excludeOperations || [];
+  return entries.filter(entry => matchesFilterRules(entry, filter) && !excluded.includes(operationName(entry)));
+};
+
+/**
+ * Compiles a path glob: `**` matches anything, `*` anything but `/`, `?` one character.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob.trim().replace(/\*\*|\*|\?|[.+^${}()|[\]\\]/g, token => {
+    if (token === '**') return '.*';
+    if (token === '*') return '[^/]*';
+    if (token === '?') return '[^/]';
+    return `\\${token}`;
+  });
+  return new RegExp(`^${source}$`);
+};
@@ -0,0 +1,88 @@
+import { RefResolver } from "./refResolver";
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
+
+/**
+ * Message actions of event-driven specs (AsyncAPI), from the client's side: it publishes a
+ * message to a channel (the request body) or subscribes to receive them (the responses).
+ */
+export const MESSAGE_ACTIONS = ['publish', 'subscribe'];
+
+export const OPERATION_METHODS = [...HTTP_METHODS, ...MESSAGE_ACTIONS];
+
+export const UNTAGGED_GROUP = 'Other';
+
+/**
+ * One operation together with the path item (or channel) it is declared on.
+ */
+export interface OperationEntry {
+  path: string;
+  /** Lower-case HTTP method or message action. */
+  method: string;
+  operation: any;
+  pathItem: any;
+}
+
+export interface OperationGroup {
+  name: string;
+  description?: string;
+  operations: OperationEntry[];
+}
+
+/**
+ * Lists every operation of the spec in path order. Path items that `$ref` a shared one
+ * (`components/pathItems`) are followed through `resolver`.
+ */
+export const collectOperations = (spec: any, resolver?: RefResolver): OperationEntry[] => {
+  const entries: OperationEntry[] = [];
+  Object.entries(spec?.paths || {}).forEach(([path, raw]: [string, any]) => {
+    const pathItem = resolver ? resolver.deref(raw) : raw;
+    if (!pathItem || typeof pathItem !== 'object') return;
+    Object.entries(pathItem).forEach(([method, operation]) => {
+      const lowerMethod = method.toLowerCase();
+      if (OPERATION_METHODS.includes(lowerMethod) && operation && typeof operation === 'object') {
+        entries.push({ path, method: lowerMethod, operation, pathItem });
+      }
+    });
+  });
+  return entries;
+};
+
+/**
+ * Groups operations by their first tag. Groups follow the order of the top-level `tags` array,
+ * then first appearance; untagged operations come last.
+ */
+export const groupOperationsByTag = (spec: any, entries: OperationEntry[]): OperationGroup[] => {
+  const groups = new Map<string, OperationGroup>();
+  (spec?.tags || []).forEach((tag: any) => {
+    if (tag?.name && !groups.has(tag.name)) {
+      groups.set(tag.name, { name: tag.name, description: tag.description, operations: [] });
+    }
+  });
+
+  const untagged: OperationGroup = { name: UNTAGGED_GROUP, operations: [] };
+  entries.forEach(entry => {
+    const tag = entry.operation.tags?.[0];
+    if (!tag) {
+      untagged.operations.push(entry);
+      return;
+    }
+    if (!groups.has(tag)) groups.set(tag, { name: tag, operations: [] });
+    groups.get(tag)!.operations.push(entry);
+  });
+
+  const result = Array.from(groups.values()).filter(group => group.operations.length > 0);
+  if (untagged.operations.length > 0) result.push(untagged);
+  return result;
+};
+
+/**
+ * Turns a name into a file-system friendly slug, unique within `used`.
+ */
+export const uniqueSlug = (name: string, used: Set<string>): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'group';
+  let slug = base;
+  for (let i = 2; used.has(slug); i++) slug = `${base}-${i}`;
+  used.add(slug);
+  return slug;
+};
@@ -0,0 +1,15 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { OutputFormat } from '../types';
+import { localConvertToFiles } from './conversionService';
+
+const petstore = readFileSync(new URL('./__fixtures__/petstore.yaml', import.meta.url), 'utf8');
+
+const FORMATS: OutputFormat[] = ['llm-txt', 'llms-small', 'tools-json', 'mcp'];
+
+describe('output renderers', () => {
+  it.each(FORMATS)('renders the petstore spec as %s', format => {
+    const files = localConvertToFiles(petstore, { format, fileName: 'petstore.yaml' });
+    files.forEach(file => expect(file.content).toMatchSnapshot(file.path));
+  });
+});
@@ -0,0 +1,203 @@
+import { ApiDocument, ApiOperation, OutputFile, OutputFormat } from "../types";
+import { getSchemaTypes } from "./schemaKeywords";
+
+/**
+ * Renders the document model in one output format.
+ */
+export interface OutputRenderer {
+  id: OutputFormat;
+  label: string;
+  render(document: ApiDocument): OutputFile[];
+}
+
+// Tool names allowed by function-calling APIs: ^[a-zA-Z0-9_-]{1,64}$
+const MAX_TOOL_NAME = 64;
+
+// Nesting shown inline in llms-small before falling back to a type name
+const SHAPE_DEPTH = 2;
+
+/**
+ * A compact Markdown digest: one entry per operation with parameters, body and response shapes
+ * written as type signatures, and the named schemas they mention listed once at the end.
+ */
+const llmsSmall: OutputRenderer = {
+  id: 'llms-small',
+  label: 'llms-small.txt (compact Markdown)',
+  render(document) {
+    const lines: string[] = [];
+    lines.push(`# ${document.title}${document.version ? ` (v${document.version})` : ''}`);
+    if (document.description) lines.push(`> ${document.description.split('\n')[0]}`);
+    lines.push('');
+    lines.push(`Base URL: ${document.baseUrl}`);
+    if (document.auth.length > 0) {
+      lines.push('Auth:');
+      document.auth.forEach(scheme => lines.push(`- ${scheme}`));
+    }
+    lines.push('');
+    lines.push('## Endpoints');
+
+    document.operations.forEach(op => {
+      const notes = [op.baseUrl && `base: ${op.baseUrl}`, op.auth && `auth: ${op.auth}`, op.deprecated && 'deprecated'].filter(Boolean);
+      lines.push(`- \`${op.method} ${op.path}\`${op.summary ? ` ${op.summary}` : ''}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`);
+      if (op.parameters.length > 0) {
+        lines.push(`  - params: ${op.parameters.map(p => `\`${p.name}${p.required ? '*' : ''}\` ${p.in} ${shape(p.schema, 1, document.schemas)}`).join(', ')}`);
+      }
+      if (op.requestBody) {
+        lines.push(`  - body${op.requestBody.required ? '*' : ''} (\`${op.requestBody.contentType}\`): ${shape(op.requestBody.schema, 0, document.schemas)}`);
+      }
+      if (op.responses.length > 0) {
+        lines.push(`  - returns: ${op.responses.map(r => `${r.status}${r.schema ? ` ${shape(r.schema, 0, document.schemas)}` : r.description ? ` ${r.description.split('\n')[0]}` : ''}`).join('; ')}`);
+      }
+    });
+
+    const names = Object.keys(document.schemas);
+    if (names.length > 0) {
+      lines.push('');
+      lines.push('## Schemas');
+      names.forEach(name => lines.push(`- \`${name}\`: ${shape({ ...document.schemas[name], title: undefined }, 0, document.schemas)}`));
+    }
+    return [{ path: 'llms-small.txt', content: lines.join('\n') }];
+  },
+};
+
+/**
+ * OpenAI-style function-calling definitions, one tool per operation.
+ */
+const toolsJson: OutputRenderer = {
+  id: 'tools-json',
+  label: 'Tool definitions (JSON)',
+  render(document) {
+    const names = new Set<string>();
+    const tools = document.operations.map(op => ({
+      type: 'function',
+      function: {
+        name: toolName(op, names),
+        description: toolDescription(op, document),
+        parameters: toolInputSchema(op),
+      },
+    }));
+    return [{ path: 'tools.json', content: JSON.stringify(tools, null, 2) }];
+  },
+};
+
+/**
+ * A Model Context Protocol server manifest listing one tool per operation, with behaviour
+ * hints derived from the HTTP method and an output schema when the success response has one.
+ */
+const mcpManifest: OutputRenderer = {
+  id: 'mcp',
+  label: 'MCP tool manifest',
+  render(document) {
+    const names = new Set<string>();
+    const tools = document.operations.map(op => {
+      const success = op.responses.find(r => /^2/.test(r.status) && r.schema);
+      const outputSchema = success && getSchemaTypes(success.schema).includes('object') ? success.schema : undefined;
+      return {
+        name: toolName(op, names),
+        title: op.summary || `${op.method} ${op.path}`,
+        description: toolDescription(op, document),
+        inputSchema: toolInputSchema(op),
+        ...(outputSchema ? { outputSchema } : {}),
+        annotations: {
+          readOnlyHint: op.method === 'GET' || op.method === 'HEAD' || op.method === 'OPTIONS',
+          destructiveHint: op.method === 'DELETE',
+          idempotentHint: op.method !== 'POST' && op.method !== 'PATCH',
+          openWorldHint: true,
+        },
+      };
+    });
+    const manifest = {
+      name: document.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'api',
+      version: document.version || '0.0.0',
+      description: document.description?.split('\n')[0],
+      tools,
+    };
+    return [{ path: 'mcp.json', content: JSON.stringify(manifest, null, 2) }];
+  },
+};
+
+const renderers = new Map<OutputFormat, OutputRenderer>(
+  [llmsSmall, toolsJson, mcpManifest].map(renderer => [renderer.id, renderer])
+);
+
+/**
+ * Registers (or replaces) a renderer for the document model, making it available as a `format`.
+ */
+export const registerOutputRenderer = (renderer: OutputRenderer) => {
+  renderers.set(renderer.id, renderer);
+};
+
+export const getOutputRenderers = (): OutputRenderer[] => Array.from(renderers.values());
+
+export const getOutputRenderer = (id: OutputFormat): OutputRenderer => {
+  const renderer = renderers.get(id);
+  if (!renderer) throw new Error(`Unknown output format "${id}". Expected one of: llm-txt, ${Array.from(renderers.keys()).join(', ')}`);
+  return renderer;
+};
+
+/**
+ * The arguments of an operation's tool: every parameter by name (prefixed with its location
+ * when two share a name) and the request body as `body`.
+ */
+export const toolInputSchema = (op: ApiOperation): any => {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  op.parameters.forEach(param => {
+    const name = param.name in properties ? `${param.in}_${param.name}` : param.name;
+    properties[name] = {
+      ...param.schema,
+      ...(param.description ? { description: param.description } : {}),
+      ...(param.deprecated ? { deprecated: true } : {}),
+    };
+    if (param.required) required.push(name);
+  });
+  if (op.requestBody) {
+    properties.body = {
+      ...op.requestBody.schema,
+      ...(op.requestBody.description ? { description: op.requestBody.description } : {}),
+    };
+    if (op.requestBody.required) required.push('body');
+  }
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+};
+
+function toolName(op: ApiOperation, used: Set<string>): string {
+  const base = op.id.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, MAX_TOOL_NAME) || 'operation';
+  let name = base;
+  for (let i = 2; used.has(name); i++) name = `${base.slice(0, MAX_TOOL_NAME - String(i).length - 1)}_${i}`;
+  used.add(name);
+  return name;
+}
+
+function toolDescription(op: ApiOperation, document: ApiDocument): string {
+  const parts = [op.summary, op.description, `Calls ${op.method} ${op.baseUrl || document.baseUrl}${op.path}.`];
+  if (op.auth) parts.push(`Requires ${op.auth.replace(/`/g, '')}.`);
+  if (op.deprecated) parts.push('Deprecated.');
+  return parts.filter(Boolean).join('\n\n');
+}
+
+// A schema as a one-line type signature, e.g. `{id: integer, name*: string, tags: Tag[]}`;
+// component schemas (titled after an entry of `named`) are referred to by name
+function shape(schema: any, depth: number, named: Record<string, any>): string {
+  if (!schema || typeof schema !== 'object') return 'any';
+  if (schema.title && named[schema.title]) return schema.title;
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map((value: any) => JSON.stringify(value)).join(' | ');
+  const union = schema.oneOf || schema.anyOf;
+  if (union) return union.map((sub: any) => shape(sub, depth + 1, named)).join(' | ');
+  if (schema.allOf) return schema.allOf.map((sub: any) => shape(sub, depth + 1, named)).join(' & ');
+
+  const types = getSchemaTypes(schema);
+  const nullable = types.includes('null') ? ' | null' : '';
+  if (types.includes('array')) return `${shape(schema.items, depth + 1, named)}[]${nullable}`;
+  if (types.includes('object') || schema.properties) {
+    const fields = Object.entries(schema.properties || {});
+    if (fields.length === 0) return `object${nullable}`;
+    if (depth >= SHAPE_DEPTH) return `${schema.title || 'object'}${nullable}`;
+    const required: string[] = schema.required || [];
+    const inner = fields.map(([name, sub]) => `${name}${required.includes(name) ? '*' : ''}: ${shape(sub, depth + 1, named)}`).join(', ');
+    return `{${inner}}${nullable}`;
+  }
+  const type = types.filter(t => t !== 'null').join(' | ') || 'any';
+  return `${schema.format ? `${type}(${schema.format})` : type}${nullable}`;
+}
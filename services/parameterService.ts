@@ -0,0 +1,97 @@
+import { OperationEntry } from "./operationService";
+import { RefResolver } from "./refResolver";
+
+export type ParameterStyle = 'matrix' | 'label' | 'form' | 'simple' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+
+/**
+ * The parameters that apply to an operation, resolved: path-level ones first, each replaced
+ * by the operation's own declaration when it redeclares the same `name` and `in`.
+ * Unresolvable refs are left out (diagnostics report them).
+ */
+export const getOperationParameters = ({ operation, pathItem }: OperationEntry, resolver: RefResolver): any[] => {
+  const params = new Map<string, any>();
+  [...(pathItem?.parameters || []), ...(operation.parameters || [])].forEach(raw => {
+    const param = resolver.deref(raw);
+    if (param?.name && param.in) params.set(`${param.in} ${param.name}`, param);
+  });
+  return Array.from(params.values());
+};
+
+/**
+ * Media type of a parameter (or header) declared with `content` instead of `schema`.
+ */
+export const getParameterMediaType = (param: any): string | undefined =>
+  param.schema ? undefined : Object.keys(param.content || {})[0];
+
+/**
+ * Schema of a parameter or header: its `schema`, or that of its single `content` entry.
+ */
+export const getParameterSchema = (param: any): any => {
+  const mediaType = getParameterMediaType(param);
+  return mediaType ? param.content[mediaType]?.schema : param.schema;
+};
+
+/**
+ * `style` and `explode` with the defaults of the parameter's location applied.
+ */
+export const getParameterStyle = (param: any): { style: ParameterStyle; explode: boolean } => {
+  const style: ParameterStyle = param.style || (param.in === 'query' || param.in === 'cookie' ? 'form' : 'simple');
+  return { style, explode: param.explode ?? style === 'form' };
+};
+
+/**
+ * Serializes a value the way the parameter's style puts it on the wire, as name/value pairs:
+ * exploded `form` arrays repeat the name and exploded objects use their own keys, while path
+ * and header styles yield a single pair. `encode` is applied to every scalar value.
+ */
+export const serializeParameter = (param: any, value: any, encode: (text: string) => string = text => text): [string, string][] => {
+  const { name } = param;
+  const text = (v: any) => encode(v === null || v === undefined ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v));
+  if (getParameterMediaType(param)) return [[name, text(value)]];
+
+  const { style, explode } = getParameterStyle(param);
+  const items: any[] | null = Array.isArray(value) ? value : null;
+  const entries: [string, any][] | null = value && typeof value === 'object' && !items ? Object.entries(value) : null;
+  // Non-exploded objects flatten to key,value,key,value; exploded ones to key=value
+  const pairs = (separator: string) => entries!.map(([k, v]) => (explode ? `${k}=${text(v)}` : `${k},${text(v)}`)).join(separator);
+
+  switch (style) {
+    case 'matrix':
+      if (items) return [[name, explode ? items.map(v => `;${name}=${text(v)}`).join('') : `;${name}=${items.map(text).join(',')}`]];
+      if (entries) return [[name, explode ? `;${pairs(';')}` : `;${name}=${pairs(',')}`]];
+      return [[name, `;${name}=${text(value)}`]];
+    case 'label':
+      if (items) return [[name, `.${items.map(text).join(explode ? '.' : ',')}`]];
+      if (entries) return [[name, `.${pairs(explode ? '.' : ',')}`]];
+      return [[name, `.${text(value)}`]];
+    case 'form':
+      if (items) return explode ? items.map(v => [name, text(v)]) : [[name, items.map(text).join(',')]];
+      if (entries) return explode ? entries.map(([k, v]) => [k, text(v)]) : [[name, pairs(',')]];
+      return [[name, text(value)]];
+    case 'spaceDelimited':
+    case 'pipeDelimited': {
+      const separator = style === 'pipeDelimited' ? '|' : encode(' ');
+      if (items) return [[name, items.map(text).join(separator)]];
+      if (entries) return [[name, entries.map(([k, v]) => `${k}${separator}${text(v)}`).join(separator)]];
+      return [[name, text(value)]];
+    }
+    case 'deepObject':
+      if (entries) return entries.map(([k, v]) => [`${name}[${k}]`, text(v)]);
+      return [[name, text(value)]];
+    default:
+      if (items) return [[name, items.map(text).join(',')]];
+      if (entries) return [[name, pairs(',')]];
+      return [[name, text(value)]];
+  }
+};
+
+/**
+ * How a serialized value reads in its location: `a=1&b=2` in a query, the bare value in a
+ * path, `Name: value` for a header.
+ */
+export const formatSerialized = (param: any, pairs: [string, string][]): string => {
+  if (param.in === 'query') return pairs.map(([k, v]) => `${k}=${v}`).join('&');
+  if (param.in === 'cookie') return pairs.map(([k, v]) => `${k}=${v}`).join('; ');
+  if (param.in === 'header') return `${param.name}: ${pairs[0]?.[1] ?? ''}`;
+  return pairs[0]?.[1] ?? '';
+};
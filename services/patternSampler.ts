@@ -0,0 +1,180 @@
+type Sampler = () => string;
+type CharRange = [number, number];
+
+const DIGITS: CharRange[] = [[48, 57]];
+const WORD: CharRange[] = [[48, 57], [65, 90], [95, 95], [97, 122]];
+const LOWER: CharRange[] = [[97, 122]];
+const PRINTABLE: CharRange = [33, 126];
+const MAX_ATTEMPTS = 10;
+
+/**
+ * Produces a string matching a JSON Schema `pattern` (an ECMA-262 regex) by sampling the
+ * pattern itself. Returns undefined for constructs it cannot sample (lookarounds,
+ * backreferences, Unicode properties) or when no attempt passes `accept`, so callers can fall back.
+ */
+export const samplePattern = (pattern: string, random: () => number, accept: (value: string) => boolean = () => true): string | undefined => {
+  let regex: RegExp;
+  let sampler: Sampler;
+  try {
+    regex = new RegExp(pattern, 'u');
+    sampler = compilePattern(pattern, random);
+  } catch {
+    return undefined;
+  }
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const value = sampler();
+    if (regex.test(value) && accept(value)) return value;
+  }
+  return undefined;
+};
+
+function compilePattern(pattern: string, random: () => number): Sampler {
+  let pos = 0;
+  const peek = () => pattern[pos];
+  const unsupported = (): never => {
+    throw new Error(`Cannot sample pattern construct at offset ${pos}`);
+  };
+  const pick = (n: number) => Math.floor(random() * n);
+
+  const pickInside = (ranges: CharRange[]): string => {
+    const [from, to] = ranges[pick(ranges.length)];
+    return String.fromCodePoint(from + pick(to - from + 1));
+  };
+  const pickOutside = (ranges: CharRange[]): string => {
+    const size = PRINTABLE[1] - PRINTABLE[0] + 1;
+    const start = pick(size);
+    for (let i = 0; i < size; i++) {
+      const code = PRINTABLE[0] + (start + i) % size;
+      if (!ranges.some(([from, to]) => code >= from && code <= to)) return String.fromCodePoint(code);
+    }
+    return unsupported();
+  };
+
+  // Called with the backslash already consumed
+  const parseEscape = (inClass: boolean): CharRange[] => {
+    const c = pattern[pos++];
+    switch (c) {
+      case 'd': return DIGITS;
+      case 'w': return WORD;
+      case 's': return [[32, 32]];
+      case 'D': case 'S': return LOWER;
+      case 'W': return [[45, 45]];
+      case 'n': return [[10, 10]];
+      case 't': return [[9, 9]];
+      case 'r': return [[13, 13]];
+      case 'f': return [[12, 12]];
+      case 'v': return [[11, 11]];
+      case '0': return [[0, 0]];
+      case 'b': return inClass ? [[8, 8]] : unsupported();
+      case 'x': {
+        const hex = pattern.slice(pos, pos + 2);
+        pos += 2;
+        return [[parseInt(hex, 16), parseInt(hex, 16)]];
+      }
+      case 'u': {
+        const match = /^(?:\{([0-9a-fA-F]+)\}|([0-9a-fA-F]{4}))/.exec(pattern.slice(pos));
+        if (!match) return unsupported();
+        pos += match[0].length;
+        const code = parseInt(match[1] || match[2], 16);
+        return [[code, code]];
+      }
+      case undefined: return unsupported();
+      default:
+        if (/[1-9cpPk]/.test(c)) return unsupported();
+        return [[c.codePointAt(0)!, c.codePointAt(0)!]];
+    }
+  };
+
+  const parseClass = (): Sampler => {
+    const negated = peek() === '^';
+    if (negated) pos++;
+    const ranges: CharRange[] = [];
+    while (pos < pattern.length && peek() !== ']') {
+      const c = pattern[pos++];
+      const start = c === '\\' ? parseEscape(true) : [[c.codePointAt(0)!, c.codePointAt(0)!] as CharRange];
+      const isSingle = start.length === 1 && start[0][0] === start[0][1];
+      if (isSingle && peek() === '-' && pattern[pos + 1] !== undefined && pattern[pos + 1] !== ']') {
+        pos++;
+        const d = pattern[pos++];
+        const end = d === '\\' ? parseEscape(true) : [[d.codePointAt(0)!, d.codePointAt(0)!] as CharRange];
+        ranges.push([start[0][0], end[0][1]]);
+      } else {
+        ranges.push(...start);
+      }
+    }
+    pos++;
+    if (!negated && ranges.length === 0) return unsupported();
+    return () => negated ? pickOutside(ranges) : pickInside(ranges);
+  };
+
+  const parseAtom = (): Sampler => {
+    const c = pattern[pos++];
+    switch (c) {
+      case '(': {
+        if (pattern.startsWith('?:', pos)) pos += 2;
+        else if (/^\?<[A-Za-z_$]/.test(pattern.slice(pos))) pos = pattern.indexOf('>', pos) + 1;
+        else if (peek() === '?') unsupported();
+        const inner = parseAlternation();
+        if (pattern[pos++] !== ')') unsupported();
+        return inner;
+      }
+      case '[': return parseClass();
+      case '\\': {
+        // Word boundaries are zero-width; the final regex test catches any mismatch they cause
+        if (peek() === 'b' || peek() === 'B') {
+          pos++;
+          return () => '';
+        }
+        const ranges = parseEscape(false);
+        return () => pickInside(ranges);
+      }
+      case '.': return () => pickInside(LOWER);
+      case '^': case '$': return () => '';
+      default: return () => c;
+    }
+  };
+
+  const parseQuantified = (atom: Sampler): Sampler => {
+    let min: number;
+    let max: number;
+    const c = peek();
+    if (c === '*') [min, max] = [0, 2];
+    else if (c === '+') [min, max] = [1, 3];
+    else if (c === '?') [min, max] = [0, 1];
+    else if (c === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(pos));
+      if (!match) return atom;
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] ? Number(match[3]) : min + 2;
+      pos += match[0].length - 1;
+    } else {
+      return atom;
+    }
+    pos++;
+    if (peek() === '?') pos++;
+    return () => {
+      let value = '';
+      for (let n = min + pick(max - min + 1); n > 0; n--) value += atom();
+      return value;
+    };
+  };
+
+  const parseSequence = (): Sampler => {
+    const parts: Sampler[] = [];
+    while (pos < pattern.length && peek() !== '|' && peek() !== ')') parts.push(parseQuantified(parseAtom()));
+    return () => parts.map(part => part()).join('');
+  };
+
+  const parseAlternation = (): Sampler => {
+    const branches = [parseSequence()];
+    while (peek() === '|') {
+      pos++;
+      branches.push(parseSequence());
+    }
+    return branches.length === 1 ? branches[0] : () => branches[pick(branches.length)]();
+  };
+
+  const sampler = parseAlternation();
+  if (pos < pattern.length) unsupported();
+  return sampler;
+}
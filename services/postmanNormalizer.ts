@@ -0,0 +1,287 @@
+import { OpenAPISpec } from "../types";
+
+// Set by Postman itself; handled elsewhere (media types and security schemes)
+const SKIPPED_HEADERS = ['content-type', 'authorization'];
+
+const RAW_LANGUAGES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain',
+};
+
+/**
+ * Returns true for Postman collections (v2.0 and v2.1 export format).
+ */
+export const isPostmanCollection = (spec: any): boolean =>
+  Array.isArray(spec?.item) && (/getpostman\.com/.test(String(spec.info?.schema || '')) || spec.info?._postman_id !== undefined);
+
+/**
+ * Converts a Postman collection into the OpenAPI 3.0 structure. Folders become tags (nested ones
+ * joined with ` / `), `:name` and `{{name}}` URL segments path parameters, and saved example
+ * responses the responses. Collections have no schemas, so they are inferred from the example
+ * bodies; collection variables fill in the server URL.
+ */
+export const normalizePostmanCollection = (collection: any): OpenAPISpec => {
+  const variables: Record<string, string> = Object.fromEntries(
+    (collection.variable || []).filter((v: any) => v?.key).map((v: any) => [v.key, String(v.value ?? '')])
+  );
+  const paths: Record<string, any> = {};
+  const tags: any[] = [];
+  const securitySchemes: Record<string, any> = {};
+  const servers: string[] = [];
+
+  const visit = (items: any[], folders: string[], inheritedAuth: any) => {
+    items.forEach(item => {
+      if (!item || typeof item !== 'object') return;
+      if (Array.isArray(item.item)) {
+        const name = [...folders, item.name || 'Folder'].join(' / ');
+        const description = readDescription(item.description);
+        tags.push({ name, ...(description ? { description } : {}) });
+        visit(item.item, [...folders, item.name || 'Folder'], item.auth || inheritedAuth);
+        return;
+      }
+      if (!item.request) return;
+      const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request;
+      const url = parseUrl(request.url);
+      // A `{{baseUrl}}` may hold a path too; it joins the request path so all paths share one base
+      const [, server, prefix = ''] = /^((?:[a-z][a-z0-9+.-]*:\/\/)?[^/]*)(\/.*)?$/i.exec(substitute(url.origin, variables))!;
+      url.path = `${prefix.replace(/\/+$/, '')}${url.path}`;
+      const method = String(request.method || 'GET').toLowerCase();
+      const pathItem = paths[url.path] || (paths[url.path] = {});
+      // Collections may hold the same request twice; the first one is kept
+      if (pathItem[method]) return;
+
+      if (server && !servers.includes(server)) servers.push(server);
+      const auth = request.auth || inheritedAuth;
+      pathItem[method] = convertRequest(item, request, url, folders, auth, securitySchemes);
+    });
+  };
+  visit(collection.item, [], null);
+
+  const result: any = {
+    openapi: '3.0.3',
+    info: {
+      title: collection.info?.name || 'Postman Collection',
+      ...(typeof collection.info?.version === 'string' ? { version: collection.info.version } : {}),
+      ...(readDescription(collection.info?.description) ? { description: readDescription(collection.info.description) } : {}),
+    },
+    paths,
+  };
+  if (servers.length > 0) result.servers = servers.map(url => ({ url }));
+  if (Object.keys(securitySchemes).length > 0) result.components = { securitySchemes };
+  const defaultAuth = collection.auth && toSecurityRequirement(collection.auth, securitySchemes);
+  if (defaultAuth) result.security = defaultAuth;
+  if (tags.length > 0) result.tags = tags;
+  result['x-original-postman'] = collection.info?.schema || 'v2';
+  return result;
+};
+
+interface PostmanUrl {
+  /** Scheme and host, still holding `{{variables}}`. */
+  origin: string;
+  /** OpenAPI-style path with `{name}` parameters. */
+  path: string;
+  pathParams: { name: string; value?: string; description?: string }[];
+  query: any[];
+}
+
+function parseUrl(raw: any): PostmanUrl {
+  const url = typeof raw === 'string' ? splitRawUrl(raw) : raw || {};
+  const host = Array.isArray(url.host) ? url.host.join('.') : url.host || '';
+  const origin = host ? `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}` : '';
+  const segments: string[] = Array.isArray(url.path) ? url.path : String(url.path || '').split('/').filter(Boolean);
+  const declared = new Map<string, any>((url.variable || []).map((v: any) => [v.key, v]));
+  const pathParams: PostmanUrl['pathParams'] = [];
+  const path = '/' + segments.map(segment => {
+    const name = /^:(.+)$/.exec(segment)?.[1] || /^\{\{(.+)\}\}$/.exec(segment)?.[1];
+    if (!name) return segment;
+    const variable = declared.get(name);
+    pathParams.push({ name, value: variable?.value, description: readDescription(variable?.description) });
+    return `{${name}}`;
+  }).join('/');
+  return { origin, path, pathParams, query: url.query || [] };
+}
+
+// v2.0 collections and hand-written v2.1 ones may give the URL as a plain string
+function splitRawUrl(raw: string): any {
+  const [beforeQuery, queryString = ''] = raw.split('?');
+  const match = /^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/]*)(.*)$/i.exec(beforeQuery)!;
+  return {
+    protocol: match[1],
+    host: match[2],
+    path: match[3],
+    query: queryString.split('&').filter(Boolean).map(pair => {
+      const [key, value = ''] = pair.split('=');
+      return { key: decodeURIComponent(key), value: decodeURIComponent(value) };
+    }),
+  };
+}
+
+function convertRequest(item: any, request: any, url: PostmanUrl, folders: string[], auth: any, securitySchemes: Record<string, any>): any {
+  const op: any = { summary: item.name || `${request.method} ${url.path}` };
+  const description = readDescription(request.description);
+  if (description) op.description = description;
+  if (folders.length > 0) op.tags = [folders.join(' / ')];
+
+  const parameters = [
+    ...url.pathParams.map(p => parameter(p.name, 'path', true, p.description, p.value)),
+    ...url.query.filter((q: any) => q?.key).map((q: any) => parameter(q.key, 'query', false, readDescription(q.description), q.value)),
+    ...(request.header || [])
+      .filter((h: any) => h?.key && !SKIPPED_HEADERS.includes(h.key.toLowerCase()))
+      .map((h: any) => parameter(h.key, 'header', false, readDescription(h.description), h.value)),
+  ];
+  if (parameters.length > 0) op.parameters = parameters;
+
+  const contentType = headerValue(request.header, 'content-type');
+  const body = convertBody(request.body, contentType);
+  if (body) op.requestBody = { required: true, content: body };
+
+  const security = auth && toSecurityRequirement(auth, securitySchemes);
+  if (security) op.security = security;
+
+  op.responses = {};
+  (item.response || []).forEach((saved: any) => {
+    const status = String(saved?.code || 'default');
+    const type = headerValue(saved.header, 'content-type')?.split(';')[0].trim()
+      || (saved._postman_previewlanguage === 'json' ? 'application/json' : saved.body ? 'text/plain' : undefined);
+    const response = op.responses[status] || (op.responses[status] = { description: saved.status || saved.name || 'Response' });
+    if (type && saved.body !== undefined && saved.body !== null) {
+      const value = type.includes('json') ? parseJson(saved.body) : saved.body;
+      const media = response.content?.[type];
+      if (media) {
+        // Several saved examples for one status become named examples of it
+        media.examples = { ...(media.examples || {}), [saved.name || `example${Object.keys(media.examples || {}).length + 1}`]: { value } };
+      } else {
+        response.content = {
+          ...(response.content || {}),
+          [type]: { schema: inferSchema(value), examples: { [saved.name || 'example1']: { value } } },
+        };
+      }
+    }
+    const headers = (saved.header || []).filter((h: any) => h?.key && h.key.toLowerCase() !== 'content-type');
+    if (headers.length > 0 && !response.headers) {
+      response.headers = Object.fromEntries(headers.map((h: any) => [h.key, { schema: { type: 'string', example: h.value } }]));
+    }
+  });
+  return op;
+}
+
+function convertBody(body: any, contentType: string | undefined): Record<string, any> | undefined {
+  if (!body || body.disabled) return undefined;
+  switch (body.mode) {
+    case 'raw': {
+      if (!body.raw) return undefined;
+      const type = contentType?.split(';')[0].trim() || RAW_LANGUAGES[body.options?.raw?.language] || 'text/plain';
+      const value = type.includes('json') ? parseJson(body.raw) : body.raw;
+      return { [type]: { schema: inferSchema(value), example: value } };
+    }
+    case 'urlencoded':
+    case 'formdata': {
+      const fields = (body[body.mode] || []).filter((f: any) => f?.key && !f.disabled);
+      const schema = {
+        type: 'object',
+        properties: Object.fromEntries(fields.map((f: any) => [f.key, {
+          ...(f.type === 'file' ? { type: 'string', format: 'binary' } : { type: 'string', example: f.value }),
+          ...(readDescription(f.description) ? { description: readDescription(f.description) } : {}),
+        }])),
+      };
+      return { [body.mode === 'urlencoded' ? 'application/x-www-form-urlencoded' : 'multipart/form-data']: { schema } };
+    }
+    case 'file':
+      return { [contentType || 'application/octet-stream']: { schema: { type: 'string', format: 'binary' } } };
+    case 'graphql': {
+      const value: any = { query: body.graphql?.query || '' };
+      const variables = body.graphql?.variables && parseJson(body.graphql.variables);
+      if (variables && typeof variables === 'object') value.variables = variables;
+      return { 'application/json': { schema: inferSchema(value), example: value } };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Registers the scheme an auth block uses and returns the requirement for it; `noauth` is public.
+ */
+function toSecurityRequirement(auth: any, securitySchemes: Record<string, any>): any[] | undefined {
+  const option = (key: string) => (auth[auth.type] || []).find((entry: any) => entry?.key === key)?.value;
+  let scheme: any;
+  switch (auth.type) {
+    case 'noauth':
+      return [];
+    case 'bearer':
+      scheme = { type: 'http', scheme: 'bearer' };
+      break;
+    case 'basic':
+      scheme = { type: 'http', scheme: 'basic' };
+      break;
+    case 'apikey':
+      scheme = { type: 'apiKey', name: option('key') || 'X-API-Key', in: option('in') === 'query' ? 'query' : 'header' };
+      break;
+    case 'oauth2': {
+      const flow = option('grant_type') === 'authorization_code'
+        ? { authorizationCode: { authorizationUrl: option('authUrl') || '', tokenUrl: option('accessTokenUrl') || '', scopes: {} } }
+        : { clientCredentials: { tokenUrl: option('accessTokenUrl') || '', scopes: {} } };
+      scheme = { type: 'oauth2', flows: flow };
+      break;
+    }
+    default:
+      if (!auth.type) return undefined;
+      scheme = { type: 'http', scheme: auth.type };
+  }
+  const name = scheme.type === 'apiKey' ? `apiKey_${scheme.name}` : `${auth.type}Auth`;
+  securitySchemes[name] = scheme;
+  return [{ [name]: [] }];
+}
+
+function parameter(name: string, location: string, required: boolean, description?: string, value?: any): any {
+  return {
+    name,
+    in: location,
+    required,
+    ...(description ? { description } : {}),
+    schema: { type: 'string' },
+    ...(value !== undefined && value !== '' ? { example: value } : {}),
+  };
+}
+
+// A schema matching a saved example: types, fields and array items from the first element
+function inferSchema(value: any): any {
+  if (value === null) return { nullable: true };
+  if (Array.isArray(value)) return { type: 'array', items: value.length > 0 ? inferSchema(value[0]) : {} };
+  switch (typeof value) {
+    case 'object':
+      return { type: 'object', properties: Object.fromEntries(Object.entries(value).map(([key, sub]) => [key, inferSchema(sub)])) };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    default:
+      return { type: 'string' };
+  }
+}
+
+function headerValue(headers: any, name: string): string | undefined {
+  if (!Array.isArray(headers)) return undefined;
+  return headers.find((h: any) => h?.key?.toLowerCase() === name && !h.disabled)?.value;
+}
+
+function readDescription(description: any): string | undefined {
+  if (!description) return undefined;
+  return typeof description === 'string' ? description : description.content || undefined;
+}
+
+// Postman bodies often hold `{{variables}}`, which are not valid JSON; those stay text
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function substitute(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{([^}]+)\}\}/g, (match, name) => variables[name] || match);
+}
@@ -0,0 +1,149 @@
+/**
+ * A `$ref` target located in the root spec or in one of the uploaded files.
+ */
+export interface ResolvedRef {
+  /** Absolute key (`document#pointer`) identifying the target, used for cycle detection. */
+  key: string;
+  /** Human readable name, taken from the last pointer segment or the file name. */
+  name: string;
+  value: any;
+}
+
+export interface RefResolver {
+  root: any;
+  /** Resolves a `$ref` string; `from` is the object holding it, used to find the base document. */
+  resolve(ref: string, from?: object): ResolvedRef | null;
+  /** Follows `$ref` chains on a component object (response, request body, parameter...). */
+  deref<T = any>(value: T): T;
+}
+
+const ROOT_DOCUMENT = '';
+
+/**
+ * Creates a resolver for local (`#/...`) and relative (`./schemas/user.yaml#/User`) references.
+ * `documents` maps uploaded file paths to their parsed content; `rootPath` is the path of the root spec.
+ */
+export const createRefResolver = (root: any, documents: Record<string, any> = {}, rootPath = ''): RefResolver => {
+  const docs = new Map<string, any>();
+  const origins = new WeakMap<object, string>();
+  const rootKey = normalizePath(rootPath) || ROOT_DOCUMENT;
+
+  docs.set(rootKey, root);
+  Object.entries(documents).forEach(([path, doc]) => {
+    const key = normalizePath(path);
+    if (key === rootKey) return;
+    docs.set(key, doc);
+    indexOrigins(doc, key, origins);
+  });
+
+  const findDocument = (path: string): string | null => {
+    if (docs.has(path)) return path;
+    // Flat multi-file uploads lose directories, so fall back to matching the file name
+    const baseName = path.split('/').pop();
+    const matches = Array.from(docs.keys()).filter(key => key.split('/').pop() === baseName);
+    return matches.length === 1 ? matches[0] : null;
+  };
+
+  const resolve = (ref: string, from?: object): ResolvedRef | null => {
+    if (typeof ref !== 'string') return null;
+    const hashIndex = ref.indexOf('#');
+    const filePart = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const pointer = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+    const base = (from && origins.get(from)) ?? rootKey;
+    let docKey: string | null = base;
+    if (filePart) {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(filePart)) return null;
+      docKey = findDocument(joinPath(base, filePart));
+    }
+    if (docKey === null) return null;
+
+    const value = evaluatePointer(docs.get(docKey), pointer);
+    if (value === undefined) return null;
+
+    const segments = parsePointer(pointer);
+    const name = segments.length > 0
+      ? segments[segments.length - 1]
+      : (docKey.split('/').pop() || 'root').replace(/\.(ya?ml|json)$/i, '');
+    return { key: `${docKey}#${segments.map(escapeSegment).join('/')}`, name, value };
+  };
+
+  const deref = (value: any): any => {
+    const seen = new Set<string>();
+    let current = value;
+    while (current && typeof current === 'object' && typeof current.$ref === 'string') {
+      const target = resolve(current.$ref, current);
+      if (!target || seen.has(target.key)) return current;
+      seen.add(target.key);
+      current = target.value;
+    }
+    return current;
+  };
+
+  return { root, resolve, deref };
+};
+
+/**
+ * Splits a JSON Pointer fragment into unescaped segments (`~1` is `/`, `~0` is `~`).
+ */
+export const parsePointer = (pointer: string): string[] => {
+  const decoded = safeDecode(pointer);
+  if (decoded === '' || decoded === '/') return [];
+  return decoded.replace(/^\//, '').split('/').map(unescapeSegment);
+};
+
+/**
+ * Walks a parsed document along a JSON Pointer fragment.
+ */
+export const evaluatePointer = (doc: any, pointer: string): any => {
+  let target = doc;
+  for (const segment of parsePointer(pointer)) {
+    if (target === null || typeof target !== 'object') return undefined;
+    target = target[segment];
+  }
+  return target;
+};
+
+/**
+ * Builds a JSON Pointer fragment (without `#`) from raw segments.
+ */
+export const toPointer = (segments: (string | number)[]): string =>
+  segments.map(s => '/' + escapeSegment(String(s))).join('');
+
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  path.replace(/\\/g, '/').split('/').forEach(part => {
+    if (part === '' || part === '.') return;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function joinPath(base: string, relative: string): string {
+  if (relative.startsWith('/')) return normalizePath(relative);
+  const dir = base.includes('/') ? base.slice(0, base.lastIndexOf('/')) : '';
+  return normalizePath(dir ? `${dir}/${relative}` : relative);
+}
+
+function indexOrigins(value: any, docKey: string, origins: WeakMap<object, string>) {
+  if (!value || typeof value !== 'object' || origins.has(value)) return;
+  origins.set(value, docKey);
+  Object.values(value).forEach(child => indexOrigins(child, docKey, origins));
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { formatSchemaType } from './schemaKeywords';
+
+describe('formatSchemaType', () => {
+  it('shows the declared type', () => {
+    expect(formatSchemaType({ type: 'string', nullable: true })).toBe('string | null');
+  });
+
+  it('reads the type from enum values when none is declared', () => {
+    expect(formatSchemaType({ enum: ['asc', 'desc'] })).toBe('string');
+    expect(formatSchemaType({ enum: [1, 2, 3] })).toBe('integer');
+    expect(formatSchemaType({ enum: [null, 1, 2.5] })).toBe('number | null');
+    expect(formatSchemaType({ enum: ['auto', 0] })).toBe('string | integer');
+  });
+
+  it('reads the type from a const value', () => {
+    expect(formatSchemaType({ const: true })).toBe('boolean');
+    expect(formatSchemaType({ const: null })).toBe('null');
+  });
+
+  it('falls back when nothing tells the type', () => {
+    expect(formatSchemaType({ description: 'Anything' })).toBe('unknown');
+    expect(formatSchemaType({ enum: [] }, 'any')).toBe('any');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Which side of an exchange a schema is rendered for. Request bodies hide `readOnly`
+ * fields and responses hide `writeOnly` fields.
+ */
+export type SchemaDirection = 'request' | 'response';
+
+/**
+ * Returns the declared types of a schema, folding in 3.0 `nullable` and 3.1 type arrays.
+ * Object and array types are inferred from `properties` / `items` when `type` is missing.
+ */
+export const getSchemaTypes = (schema: any): string[] => {
+  if (!schema || typeof schema !== 'object') return [];
+  let types: string[] = Array.isArray(schema.type) ? [...schema.type] : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    if (schema.properties || schema.additionalProperties || schema.patternProperties) types = ['object'];
+    else if (schema.items || schema.prefixItems) types = ['array'];
+  }
+  if (schema.nullable === true && !types.includes('null')) types.push('null');
+  return types;
+};
+
+export const hasSchemaType = (schema: any, type: string): boolean => getSchemaTypes(schema).includes(type);
+
+/**
+ * The first non-null type, used when a single concrete type is needed (e.g. for examples).
+ */
+export const getPrimaryType = (schema: any): string | undefined =>
+  getSchemaTypes(schema).find(t => t !== 'null');
+
+/**
+ * Formats the type for display, e.g. `string | null`. Without a declared type it is read from
+ * the `const` or `enum` values, so `enum: [1, 2.5, null]` shows as `number | null`.
+ */
+export const formatSchemaType = (schema: any, fallback = 'unknown'): string => {
+  const types = getSchemaTypes(schema);
+  if (types.length > 0) return types.join(' | ');
+  const values: any[] = schema?.const !== undefined ? [schema.const] : Array.isArray(schema?.enum) ? schema.enum : [];
+  const valueTypes = Array.from(new Set(values.map(valueType)))
+    .filter(type => !(type === 'integer' && values.some(v => valueType(v) === 'number')))
+    .sort((a, b) => Number(a === 'null') - Number(b === 'null'));
+  return valueTypes.length > 0 ? valueTypes.join(' | ') : fallback;
+};
+
+/**
+ * True when a field should be left out of the given direction (never when no direction is given).
+ */
+export const isHiddenFor = (schema: any, direction?: SchemaDirection): boolean =>
+  (direction === 'request' && schema?.readOnly === true) || (direction === 'response' && schema?.writeOnly === true);
+
+/**
+ * Builds the compact metadata list shown after a field name: type first, then constraints.
+ * `typeLabel` overrides the displayed type (e.g. `object` for a bare `$ref`).
+ */
+export const formatSchemaMetadata = (schema: any, typeLabel?: string): string => {
+  const parts = [`\`${typeLabel || formatSchemaType(schema)}\``, ...describeConstraints(schema)];
+  return parts.join(', ');
+};
+
+/**
+ * Renders every validation and annotation keyword of a schema as short `key: value` fragments.
+ */
+export const describeConstraints = (schema: any): string[] => {
+  if (!schema || typeof schema !== 'object') return [];
+  const parts: string[] = [];
+  const json = (value: any) => `\`${JSON.stringify(value)}\``;
+
+  if (schema.format) parts.push(`format: \`${schema.format}\``);
+  if (schema.const !== undefined) parts.push(`const: ${json(schema.const)}`);
+  if (schema.pattern) parts.push(`pattern: \`${schema.pattern}\``);
+  if (schema.contentMediaType) parts.push(`content type: \`${schema.contentMediaType}\``);
+  if (schema.contentEncoding) parts.push(`encoding: \`${schema.contentEncoding}\``);
+
+  const range = (min: any, max: any) =>
+    min !== undefined && max !== undefined ? `\`${min}..${max}\`` : min !== undefined ? `\`>= ${min}\`` : `\`<= ${max}\``;
+  if (schema.minLength !== undefined || schema.maxLength !== undefined) {
+    parts.push(`length: ${range(schema.minLength, schema.maxLength)}`);
+  }
+
+  // 3.0 uses boolean exclusive flags next to minimum/maximum; 3.1 uses numeric bounds
+  if (schema.minimum !== undefined) parts.push(`min: \`${schema.minimum}\`${schema.exclusiveMinimum === true ? ' (exclusive)' : ''}`);
+  if (typeof schema.exclusiveMinimum === 'number') parts.push(`min: \`${schema.exclusiveMinimum}\` (exclusive)`);
+  if (schema.maximum !== undefined) parts.push(`max: \`${schema.maximum}\`${schema.exclusiveMaximum === true ? ' (exclusive)' : ''}`);
+  if (typeof schema.exclusiveMaximum === 'number') parts.push(`max: \`${schema.exclusiveMaximum}\` (exclusive)`);
+  if (schema.multipleOf !== undefined) parts.push(`multiple of: \`${schema.multipleOf}\``);
+
+  if (schema.minItems !== undefined || schema.maxItems !== undefined) {
+    parts.push(`items: ${range(schema.minItems, schema.maxItems)}`);
+  }
+  if (schema.uniqueItems) parts.push('unique items');
+  if (schema.minProperties !== undefined || schema.maxProperties !== undefined) {
+    parts.push(`properties: ${range(schema.minProperties, schema.maxProperties)}`);
+  }
+  if (schema.additionalProperties === false || schema.unevaluatedProperties === false) parts.push('no additional properties');
+
+  if (schema.default !== undefined) parts.push(`default: ${json(schema.default)}`);
+  if (Array.isArray(schema.enum)) parts.push(`enum: [${schema.enum.map((e: any) => json(e)).join(', ')}]`);
+  if (schema.example !== undefined) parts.push(`example: ${json(schema.example)}`);
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+    parts.push(`examples: [${schema.examples.map((e: any) => json(e)).join(', ')}]`);
+  }
+
+  if (schema.readOnly) parts.push('read-only');
+  if (schema.writeOnly) parts.push('write-only');
+  if (schema.deprecated) parts.push('**deprecated**');
+  return parts;
+};
+
+// The JSON Schema type a literal value belongs to
+function valueType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
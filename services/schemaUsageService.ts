@@ -0,0 +1,71 @@
+import { OperationEntry } from "./operationService";
+import { parsePointer, RefResolver, ResolvedRef } from "./refResolver";
+
+export const DEFAULT_SHARED_SCHEMA_MIN_USES = 2;
+export const DEFAULT_SHARED_SCHEMA_MIN_FIELDS = 3;
+
+// Values under these keys are literal data, so `$ref`-looking keys inside them are not references
+const LITERAL_KEYS = ['example', 'examples', 'default', 'enum', 'const'];
+
+/**
+ * Maps each `components.schemas` entry (by ref key) to the operations that use it, directly
+ * or through other schemas, as `METHOD /path` labels in operation order.
+ */
+export const collectSchemaUsage = (entries: OperationEntry[], resolver: RefResolver): Map<string, string[]> => {
+  const usage = new Map<string, string[]>();
+
+  entries.forEach(({ path, method, operation, pathItem }) => {
+    const label = `${method.toUpperCase()} ${path}`;
+    const visited = new Set<object>();
+    const walk = (value: any) => {
+      if (!value || typeof value !== 'object' || visited.has(value)) return;
+      visited.add(value);
+      if (typeof value.$ref === 'string') {
+        const target = resolver.resolve(value.$ref, value);
+        if (!target) return;
+        if (isComponentSchema(target)) {
+          const users = usage.get(target.key) || [];
+          if (!users.includes(label)) users.push(label);
+          usage.set(target.key, users);
+        }
+        walk(target.value);
+        return;
+      }
+      Object.entries(value).forEach(([key, child]) => {
+        if (!LITERAL_KEYS.includes(key)) walk(child);
+      });
+    };
+    walk(pathItem.parameters);
+    walk(operation.parameters);
+    walk(operation.requestBody);
+    walk(operation.responses);
+  });
+
+  return usage;
+};
+
+/**
+ * True for refs into a `components.schemas` map (of the root spec or an uploaded file).
+ */
+export const isComponentSchema = (ref: ResolvedRef): boolean => {
+  const segments = parsePointer(ref.key.slice(ref.key.indexOf('#') + 1));
+  return segments.length === 3 && segments[0] === 'components' && segments[1] === 'schemas';
+};
+
+/**
+ * Number of top-level fields, counting those contributed by `allOf` parts.
+ */
+export const countFields = (schema: any, resolver: RefResolver, seen: object[] = []): number => {
+  const resolved = resolver.deref(schema);
+  if (!resolved || typeof resolved !== 'object' || seen.includes(resolved)) return 0;
+  const own = Object.keys(resolved.properties || {}).length;
+  return (resolved.allOf || []).reduce((sum: number, part: any) => sum + countFields(part, resolver, [...seen, resolved]), own);
+};
+
+export const schemaAnchor = (name: string): string => `schema-${slugify(name)}`;
+
+export const operationAnchor = (label: string): string => `op-${slugify(label)}`;
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,191 @@
+import { RefResolver } from "./refResolver";
+import { getSchemaTypes, isHiddenFor, SchemaDirection } from "./schemaKeywords";
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  ipv4: value => /^(\d{1,3})(\.\d{1,3}){3}$/.test(value) && value.split('.').every(octet => Number(octet) <= 255),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value),
+};
+
+interface ValidationState {
+  resolver: RefResolver;
+  direction?: SchemaDirection;
+  errors: string[];
+  /** `ref@path` pairs being checked, so `$ref` cycles that consume no data terminate. */
+  seen: string[];
+}
+
+/**
+ * Checks a value against a schema and returns one message per violation (empty when valid).
+ * Covers the keywords the example generator honors, so it doubles as its self-check;
+ * unknown keywords and formats are ignored, and `oneOf` is checked like `anyOf`.
+ * With a `direction`, required fields hidden for that direction may be missing.
+ */
+export const validateValue = (value: any, schema: any, resolver: RefResolver, direction?: SchemaDirection): string[] => {
+  const state: ValidationState = { resolver, direction, errors: [], seen: [] };
+  check(value, schema, '', state);
+  return state.errors;
+};
+
+function check(value: any, schema: any, path: string, state: ValidationState) {
+  if (schema === false) {
+    state.errors.push(`${where(path)}: no value is allowed here`);
+    return;
+  }
+  if (!schema || typeof schema !== 'object') return;
+  const { resolver, errors } = state;
+  const fail = (message: string) => errors.push(`${where(path)}: ${message}`);
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolver.resolve(schema.$ref, schema);
+    // Unresolved refs are reported by the spec diagnostics, not per value
+    if (!target || state.seen.includes(`${target.key}@${path}`)) return;
+    check(value, target.value, path, { ...state, seen: [...state.seen, `${target.key}@${path}`] });
+    return;
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) fail(`expected ${JSON.stringify(schema.const)}`);
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(value, option))) {
+    fail(`expected one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  const types = getSchemaTypes(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    fail(`expected ${types.join(' | ')}, got ${describeType(value)}`);
+    return;
+  }
+
+  if (typeof value === 'string') checkString(value, schema, fail);
+  if (typeof value === 'number') checkNumber(value, schema, fail);
+  if (Array.isArray(value)) checkArray(value, schema, path, state, fail);
+  if (isPlainObject(value)) checkObject(value, schema, path, state, fail);
+
+  (schema.allOf || []).forEach((sub: any) => check(value, sub, path, state));
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (Array.isArray(alternatives) && alternatives.length > 0) {
+    const matches = alternatives.some((sub: any) => validateBranch(value, sub, path, state).length === 0);
+    if (!matches) fail(`does not match any of the ${schema.anyOf ? 'anyOf' : 'oneOf'} alternatives`);
+  }
+  if (schema.not && validateBranch(value, schema.not, path, state).length === 0) fail('must not match the "not" schema');
+  if (schema.if) {
+    const branch = validateBranch(value, schema.if, path, state).length === 0 ? schema.then : schema.else;
+    if (branch) check(value, branch, path, state);
+  }
+}
+
+function checkString(value: string, schema: any, fail: (message: string) => void) {
+  const length = Array.from(value).length;
+  if (schema.minLength !== undefined && length < schema.minLength) fail(`shorter than ${schema.minLength} characters`);
+  if (schema.maxLength !== undefined && length > schema.maxLength) fail(`longer than ${schema.maxLength} characters`);
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(value)) fail(`does not match pattern ${schema.pattern}`);
+    } catch {
+      // Patterns that are not valid ECMA-262 regexes cannot be checked
+    }
+  }
+  const format = FORMAT_CHECKS[schema.format];
+  if (format && !format(value)) fail(`is not a valid ${schema.format}`);
+}
+
+function checkNumber(value: number, schema: any, fail: (message: string) => void) {
+  if (schema.minimum !== undefined) {
+    if (schema.exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum) fail(`below the minimum ${schema.minimum}`);
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) fail(`must be greater than ${schema.exclusiveMinimum}`);
+  if (schema.maximum !== undefined) {
+    if (schema.exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum) fail(`above the maximum ${schema.maximum}`);
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) fail(`must be less than ${schema.exclusiveMaximum}`);
+  if (schema.multipleOf) {
+    const ratio = value / schema.multipleOf;
+    if (Math.abs(ratio - Math.round(ratio)) > 1e-9) fail(`not a multiple of ${schema.multipleOf}`);
+  }
+}
+
+function checkArray(value: any[], schema: any, path: string, state: ValidationState, fail: (message: string) => void) {
+  if (schema.minItems !== undefined && value.length < schema.minItems) fail(`fewer than ${schema.minItems} items`);
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`more than ${schema.maxItems} items`);
+  if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) fail('items are not unique');
+
+  const prefix: any[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+  value.forEach((item, i) => {
+    const itemSchema = i < prefix.length ? prefix[i] : schema.items;
+    check(item, itemSchema, `${path}/${i}`, state);
+  });
+}
+
+function checkObject(value: Record<string, any>, schema: any, path: string, state: ValidationState, fail: (message: string) => void) {
+  const properties = schema.properties || {};
+  const { resolver, direction } = state;
+
+  (schema.required || []).forEach((name: string) => {
+    if (value[name] !== undefined) return;
+    if (direction && isHiddenFor(resolver.deref(properties[name]), direction)) return;
+    fail(`missing required property "${name}"`);
+  });
+
+  const count = Object.keys(value).length;
+  if (schema.minProperties !== undefined && count < schema.minProperties) fail(`fewer than ${schema.minProperties} properties`);
+  if (schema.maxProperties !== undefined && count > schema.maxProperties) fail(`more than ${schema.maxProperties} properties`);
+
+  const patterns = Object.entries(schema.patternProperties || {}).map(([pattern, sub]) => {
+    try {
+      return { regex: new RegExp(pattern, 'u'), sub };
+    } catch {
+      return null;
+    }
+  }).filter(Boolean) as { regex: RegExp; sub: any }[];
+
+  Object.entries(value).forEach(([key, child]) => {
+    const childPath = `${path}/${key}`;
+    if (key in properties) {
+      check(child, properties[key], childPath, state);
+      return;
+    }
+    const matching = patterns.filter(({ regex }) => regex.test(key));
+    matching.forEach(({ sub }) => check(child, sub, childPath, state));
+    if (matching.length > 0) return;
+    if (schema.additionalProperties === false) fail(`unexpected property "${key}"`);
+    else check(child, schema.additionalProperties, childPath, state);
+  });
+}
+
+function validateBranch(value: any, schema: any, path: string, state: ValidationState): string[] {
+  const branch = { ...state, errors: [] };
+  check(value, schema, path, branch);
+  return branch.errors;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'boolean': return typeof value === 'boolean';
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'string': return typeof value === 'string';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    default: return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function where(path: string): string {
+  return path || '(root)';
+}
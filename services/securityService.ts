@@ -0,0 +1,144 @@
+import { RefResolver } from "./refResolver";
+
+export type SecurityRequirement = Record<string, string[]>;
+
+/**
+ * Placeholder credentials a usage example has to send for one security requirement.
+ */
+export interface AuthPlaceholders {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  cookies: Record<string, string>;
+}
+
+/**
+ * Returns the security requirements that apply to an operation.
+ * An operation-level `security` (even an empty one) replaces the global default.
+ */
+export const getEffectiveSecurity = (op: any, spec: any): SecurityRequirement[] => {
+  const security = Array.isArray(op?.security) ? op.security : spec?.security;
+  return Array.isArray(security) ? security : [];
+};
+
+/**
+ * Renders the `## Authentication` section from `components.securitySchemes`.
+ */
+export const renderAuthenticationSection = (spec: any, resolver: RefResolver, lines: string[]) => {
+  const schemes = getSecuritySchemes(spec, resolver);
+  if (Object.keys(schemes).length === 0) return;
+
+  lines.push('## Authentication');
+  lines.push('');
+  if (Array.isArray(spec.security)) {
+    lines.push(`Default for all endpoints: ${describeSecurity(spec.security)}`);
+    lines.push('');
+  }
+
+  Object.entries(schemes).forEach(([name, scheme]) => {
+    const desc = scheme.description ? ` ${scheme.description}` : '';
+    lines.push(`- **\`${name}\`**: ${describeScheme(scheme)}.${desc}`);
+
+    if (scheme.type === 'oauth2') {
+      Object.entries(scheme.flows || {}).forEach(([flowName, flow]: [string, any]) => {
+        const urls: string[] = [];
+        if (flow.authorizationUrl) urls.push(`authorization URL \`${flow.authorizationUrl}\``);
+        if (flow.tokenUrl) urls.push(`token URL \`${flow.tokenUrl}\``);
+        if (flow.refreshUrl) urls.push(`refresh URL \`${flow.refreshUrl}\``);
+        lines.push(`  - Flow \`${flowName}\`${urls.length > 0 ? `: ${urls.join(', ')}` : ''}`);
+        const scopes = Object.entries(flow.scopes || {});
+        if (scopes.length > 0) {
+          lines.push('    - Scopes:');
+          scopes.forEach(([scope, scopeDesc]) => {
+            lines.push(`      - \`${scope}\`${scopeDesc ? `: ${scopeDesc}` : ''}`);
+          });
+        }
+      });
+    }
+  });
+  lines.push('');
+};
+
+/**
+ * One line per security scheme, e.g. "`apiKey`: API key sent in the header parameter `X-Key`.".
+ */
+export const listSecuritySchemes = (spec: any, resolver: RefResolver): string[] =>
+  Object.entries(getSecuritySchemes(spec, resolver)).map(([name, scheme]) =>
+    `\`${name}\`: ${describeScheme(scheme)}.${scheme.description ? ` ${scheme.description}` : ''}`);
+
+/**
+ * Describes a list of alternative security requirements, e.g. "`apiKey` or `oauth` (scopes: `read`)".
+ */
+export const describeSecurity = (requirements: SecurityRequirement[]): string => {
+  if (requirements.length === 0) return 'None (public endpoint)';
+  return requirements.map(req => {
+    const entries = Object.entries(req || {});
+    if (entries.length === 0) return 'none (anonymous access allowed)';
+    return entries.map(([name, scopes]) =>
+      scopes && scopes.length > 0
+        ? `\`${name}\` (scopes: ${scopes.map(s => `\`${s}\``).join(', ')})`
+        : `\`${name}\``
+    ).join(' + ');
+  }).join(' or ');
+};
+
+/**
+ * Builds the placeholder headers, query params and cookies for the first satisfiable requirement.
+ */
+export const getAuthPlaceholders = (requirements: SecurityRequirement[], spec: any, resolver: RefResolver): AuthPlaceholders => {
+  const placeholders: AuthPlaceholders = { headers: {}, query: {}, cookies: {} };
+  const schemes = getSecuritySchemes(spec, resolver);
+  const requirement = requirements.find(req => Object.keys(req || {}).length > 0);
+  if (!requirement) return placeholders;
+
+  Object.keys(requirement).forEach(name => {
+    const scheme = schemes[name];
+    if (!scheme) return;
+    const placeholder = `<${toPlaceholderName(name)}>`;
+
+    if (scheme.type === 'apiKey') {
+      const target = scheme.in === 'query' ? placeholders.query : scheme.in === 'cookie' ? placeholders.cookies : placeholders.headers;
+      target[scheme.name || name] = placeholder;
+    } else if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic') {
+      placeholders.headers['Authorization'] = 'Basic <BASE64_USERNAME_PASSWORD>';
+    } else if (scheme.type === 'http') {
+      const prefix = String(scheme.scheme || 'bearer').toLowerCase() === 'bearer' ? 'Bearer' : scheme.scheme;
+      placeholders.headers['Authorization'] = `${prefix} <TOKEN>`;
+    } else if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+      placeholders.headers['Authorization'] = 'Bearer <ACCESS_TOKEN>';
+    }
+  });
+  return placeholders;
+};
+
+function getSecuritySchemes(spec: any, resolver: RefResolver): Record<string, any> {
+  const schemes = spec?.components?.securitySchemes || {};
+  return Object.fromEntries(Object.entries(schemes).map(([name, scheme]) => [name, resolver.deref(scheme) || {}]));
+}
+
+function describeScheme(scheme: any): string {
+  switch (scheme.type) {
+    case 'apiKey':
+      return `API key sent in the ${scheme.in || 'header'} parameter \`${scheme.name}\``;
+    case 'http': {
+      const kind = String(scheme.scheme || '').toLowerCase();
+      if (kind === 'basic') return 'HTTP Basic authentication (`Authorization: Basic <base64(username:password)>`)';
+      if (kind === 'bearer') {
+        const format = scheme.bearerFormat ? `, format \`${scheme.bearerFormat}\`` : '';
+        return `HTTP Bearer token (\`Authorization: Bearer <token>\`)${format}`;
+      }
+      return `HTTP \`${scheme.scheme}\` authentication`;
+    }
+    case 'oauth2':
+      return 'OAuth 2.0 (`Authorization: Bearer <access token>`)';
+    case 'openIdConnect':
+      return `OpenID Connect, discovery document at \`${scheme.openIdConnectUrl}\``;
+    case 'mutualTLS':
+      return 'Mutual TLS client certificate';
+    default:
+      return `\`${scheme.type || 'unknown'}\` scheme`;
+  }
+}
+
+function toPlaceholderName(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { resolveBaseUrl, validateServerOptions } from './serverService';
+
+const servers = [
+  { url: 'https://{region}.example.com/v1', variables: { region: { default: 'eu', enum: ['eu', 'us'] } } },
+  { url: 'https://staging.example.com/v1' },
+];
+
+describe('validateServerOptions', () => {
+  it('accepts a declared server and variable value', () => {
+    expect(validateServerOptions(servers, { serverIndex: 0, serverVariables: { region: 'us' } })).toEqual([]);
+    expect(resolveBaseUrl(servers, { serverIndex: 0, serverVariables: { region: 'us' } })).toBe('https://us.example.com/v1');
+  });
+
+  it('reports an index past the last server', () => {
+    expect(validateServerOptions(servers, { serverIndex: 5 })).toEqual([{
+      severity: 'error',
+      code: 'server-index-out-of-range',
+      pointer: '/servers',
+      message: 'Server index 5 is out of range; the spec declares 2 servers, so the index must be 0 to 1.',
+    }]);
+    expect(validateServerOptions([], { serverIndex: 1 })[0].message).toBe('Server index 1 is out of range; the spec declares no servers.');
+  });
+
+  it('reports a variable value outside its enum', () => {
+    expect(validateServerOptions(servers, { serverVariables: { region: 'moon' } })).toEqual([{
+      severity: 'error',
+      code: 'server-variable-not-in-enum',
+      pointer: '/servers/0/variables/region',
+      message: 'Server variable "region" is "moon"; expected one of: eu, us.',
+    }]);
+  });
+
+  it('checks nothing when a custom base URL replaces the servers', () => {
+    expect(validateServerOptions(servers, { serverIndex: 5, serverUrl: 'https://localhost:8080' })).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import { ConversionOptions, Diagnostic, ServerSummary } from "../types";
+import { OperationEntry } from "./operationService";
+import { toPointer } from "./refResolver";
+
+/** Base URL the usage snippets call when the spec declares no servers. */
+export const DEFAULT_BASE_URL = 'https://api.example.com';
+
+/** The options that pick the server usage snippets call. */
+export type ServerOptions = Pick<ConversionOptions, 'serverIndex' | 'serverUrl' | 'serverVariables' | 'fileName'>;
+
+// A URL with a scheme, e.g. `https://` or `mqtt://`; anything else is relative to the document
+const ABSOLUTE_URL = /^[a-z][a-z\d+.-]*:\/\//i;
+
+/**
+ * Lists the servers of a `servers` array with their variables, skipping entries without a URL.
+ */
+export const listServers = (servers: any): ServerSummary[] =>
+  (Array.isArray(servers) ? servers : [])
+    .filter(server => typeof server?.url === 'string')
+    .map(server => ({
+      url: server.url,
+      ...(server.description ? { description: server.description } : {}),
+      variables: Object.entries(server.variables || {}).map(([name, variable]: [string, any]) => ({
+        name,
+        default: String(variable?.default ?? variable?.enum?.[0] ?? ''),
+        ...(Array.isArray(variable?.enum) ? { enum: variable.enum.map(String) } : {}),
+        ...(variable?.description ? { description: variable.description } : {}),
+      })),
+    }));
+
+/**
+ * The servers an operation is called on: its own `servers`, else its path item's, else the spec's.
+ */
+export const getEffectiveServers = (entry: OperationEntry, spec: any): any[] =>
+  [entry.operation.servers, entry.pathItem?.servers, spec?.servers].find(list => Array.isArray(list) && list.length > 0) || [];
+
+/**
+ * Returns true when the operation or its path item overrides the spec's servers.
+ */
+export const hasOwnServers = (entry: OperationEntry): boolean =>
+  [entry.operation.servers, entry.pathItem?.servers].some(list => Array.isArray(list) && list.length > 0);
+
+/**
+ * The base URL to call from a `servers` list: the custom `serverUrl` when set, else the
+ * `serverIndex`-th server (the first when the list is shorter, which `validateServerOptions`
+ * reports for the spec's own list) with its variables filled in.
+ * Relative URLs are resolved against the spec's own URL when it was loaded from one, else
+ * against `DEFAULT_BASE_URL`. Never ends in a slash, so paths can be appended.
+ */
+export const resolveBaseUrl = (servers: any, options: ServerOptions = {}): string => {
+  if (options.serverUrl) return trimSlash(options.serverUrl);
+  const list = listServers(servers);
+  const server = list[options.serverIndex ?? 0] || list[0];
+  if (!server) return DEFAULT_BASE_URL;
+  return resolveRelative(expandServerUrl(server, options.serverVariables), options.fileName);
+};
+
+/**
+ * Checks the server selection against the spec's `servers`: an index past the end of the list
+ * and variable values outside their `enum` are errors. Operation and path servers are not
+ * checked; shorter lists there fall back to their first server.
+ */
+export const validateServerOptions = (servers: any, options: ServerOptions = {}): Diagnostic[] => {
+  if (options.serverUrl) return [];
+  const list = listServers(servers);
+  const index = options.serverIndex ?? 0;
+  if (index >= Math.max(list.length, 1)) {
+    const declared = list.length === 0 ? 'declares no servers'
+      : list.length === 1 ? 'declares 1 server, so the index must be 0' : `declares ${list.length} servers, so the index must be 0 to ${list.length - 1}`;
+    return [{ severity: 'error', code: 'server-index-out-of-range', pointer: '/servers', message: `Server index ${index} is out of range; the spec ${declared}.` }];
+  }
+  const server = list[index];
+  if (!server) return [];
+  return server.variables
+    .filter(variable => variable.enum && options.serverVariables?.[variable.name] !== undefined && !variable.enum.includes(options.serverVariables[variable.name]))
+    .map(variable => ({
+      severity: 'error',
+      code: 'server-variable-not-in-enum',
+      pointer: toPointer(['servers', index, 'variables', variable.name]),
+      message: `Server variable "${variable.name}" is "${options.serverVariables![variable.name]}"; expected one of: ${variable.enum!.join(', ')}.`,
+    }));
+};
+
+/**
+ * Fills in a server URL's `{variable}` placeholders with the given values, else their defaults.
+ */
+export const expandServerUrl = (server: ServerSummary, values: Record<string, string> = {}): string =>
+  server.variables.reduce(
+    (url, variable) => url.split(`{${variable.name}}`).join(values[variable.name] ?? variable.default),
+    server.url
+  );
+
+/**
+ * Renders the `## Base URLs` section: every server with its variables, then the one the usage
+ * snippets call (`selected`, left out when the output has no snippets).
+ */
+export const renderServersSection = (spec: any, lines: string[], selected?: string) => {
+  const servers = listServers(spec?.servers);
+  lines.push('## Base URLs');
+  lines.push('');
+  if (servers.length === 0) {
+    lines.push(selected && selected !== DEFAULT_BASE_URL
+      ? `No servers are declared; usage examples call \`${selected}\`.`
+      : `No servers are declared; \`${DEFAULT_BASE_URL}\` stands in for the real base URL.`);
+  } else {
+    pushServerList(servers, lines);
+    // A single fixed server needs no pointer to it
+    if (selected && !(servers.length === 1 && servers[0].url === selected)) {
+      lines.push('');
+      lines.push(`Usage examples call \`${selected}\`.`);
+    }
+  }
+  lines.push('');
+};
+
+/**
+ * Pushes one bullet per server, with a nested bullet per variable.
+ */
+export const pushServerList = (servers: ServerSummary[], lines: string[]) => {
+  servers.forEach(server => {
+    lines.push(`- \`${server.url}\`${server.description ? ` - ${server.description}` : ''}`);
+    server.variables.forEach(variable => {
+      const values = variable.enum ? `one of ${variable.enum.map(value => `\`${value}\``).join(', ')} (default \`${variable.default}\`)` : `default \`${variable.default}\``;
+      lines.push(`  - \`${variable.name}\`: ${values}${variable.description ? `. ${variable.description}` : ''}`);
+    });
+  });
+};
+
+function resolveRelative(url: string, fileName?: string): string {
+  if (ABSOLUTE_URL.test(url)) return trimSlash(url);
+  const base = fileName && /^https?:\/\//i.test(fileName) ? fileName : DEFAULT_BASE_URL;
+  try {
+    return trimSlash(new URL(url, base).href);
+  } catch {
+    return trimSlash(`${DEFAULT_BASE_URL}/${url.replace(/^\/+/, '')}`);
+  }
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { resolveSnippetGenerators, SnippetRequest } from './snippetService';
+
+const [go] = resolveSnippetGenerators(['go']);
+
+const multipart = (body: any, fileFields: string[] = []): SnippetRequest => ({
+  method: 'POST',
+  url: 'https://api.example.com/upload',
+  headers: {},
+  cookies: {},
+  contentType: 'multipart/form-data',
+  body,
+  fileFields,
+});
+
+describe('go snippets', () => {
+  it('imports os only for multipart bodies that upload files', () => {
+    const textOnly = go.generate(multipart({ name: 'Rex', tags: ['a', 'b'] }));
+    expect(textOnly).not.toContain('"os"');
+    expect(textOnly).toContain('\twriter.WriteField("tags", "a")\n\twriter.WriteField("tags", "b")');
+
+    const withFile = go.generate(multipart({ name: 'Rex', photo: '' }, ['photo']));
+    expect(withFile).toContain('\t"os"');
+    expect(withFile).toContain('writer.CreateFormFile("photo", "photo.bin")');
+  });
+});
@@ -0,0 +1,344 @@
+import { SnippetLanguage } from "../types";
+import { getMediaKind, serializeFormFields } from "./mediaTypeService";
+
+/**
+ * A fully resolved HTTP request that every snippet generator renders in its own language.
+ */
+export interface SnippetRequest {
+  /** Upper-case HTTP method. */
+  method: string;
+  /** Absolute URL with path params filled in and query params appended. */
+  url: string;
+  headers: Record<string, string>;
+  cookies: Record<string, string>;
+  /** Request media type; undefined when the operation has no body. */
+  contentType?: string;
+  /** Example body value (an object for JSON and form bodies, text for XML and plain text; ignored for raw binary uploads). */
+  body?: any;
+  /** Multipart fields that carry file content. */
+  fileFields?: string[];
+  /** The body media type's `encoding` map, giving the style form fields are sent in. */
+  encoding?: Record<string, any>;
+}
+
+export interface SnippetGenerator {
+  id: SnippetLanguage;
+  /** Heading shown above the snippet. */
+  label: string;
+  /** Markdown code fence language. */
+  fence: string;
+  generate(request: SnippetRequest): string;
+}
+
+export const DEFAULT_SNIPPET_LANGUAGES: SnippetLanguage[] = ['curl'];
+
+type BodyKind = 'none' | 'json' | 'form' | 'multipart' | 'text' | 'binary';
+
+// Raw uploads are read from this file in every snippet
+const BINARY_FILE = 'body.bin';
+
+const bodyKind = (request: SnippetRequest): BodyKind => {
+  if (request.body === undefined || !request.contentType) return 'none';
+  const kind = getMediaKind(request.contentType);
+  if (kind === 'json' || kind === 'form' || kind === 'multipart' || kind === 'binary') return kind;
+  return 'text';
+};
+
+const bodyText = (request: SnippetRequest, indent = 2): string => {
+  if (typeof request.body === 'string') return request.body;
+  return JSON.stringify(request.body, null, indent);
+};
+
+const formEntries = (request: SnippetRequest): [string, string][] =>
+  serializeFormFields(request.body, request.encoding, bodyKind(request) === 'multipart');
+
+// Fields as an object while every name is sent once; as a list of pairs when arrays repeat one
+const formFields = (entries: [string, string][]): Record<string, string> | [string, string][] =>
+  new Set(entries.map(([key]) => key)).size === entries.length ? Object.fromEntries(entries) : entries;
+
+/** Headers to send explicitly; multipart content types are left to the client to add the boundary. */
+const explicitHeaders = (request: SnippetRequest): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (request.contentType && bodyKind(request) !== 'multipart') headers['Content-Type'] = request.contentType;
+  Object.assign(headers, request.headers);
+  const cookies = Object.entries(request.cookies).map(([k, v]) => `${k}=${v}`).join('; ');
+  if (cookies) headers['Cookie'] = cookies;
+  return headers;
+};
+
+const shellQuote = (value: string): string =>
+  /^[A-Za-z0-9_\-.:/=@]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+
+const curl: SnippetGenerator = {
+  id: 'curl',
+  label: 'cURL',
+  fence: 'bash',
+  generate(request) {
+    const parts = [`curl --request ${request.method}`, `--url ${shellQuote(request.url)}`];
+    const headers = { ...explicitHeaders(request) };
+    delete headers['Cookie'];
+    Object.entries(headers).forEach(([name, value]) => parts.push(`--header "${name}: ${value}"`));
+    const cookies = Object.entries(request.cookies).map(([k, v]) => `${k}=${v}`).join('; ');
+    if (cookies) parts.push(`--cookie "${cookies}"`);
+
+    switch (bodyKind(request)) {
+      case 'multipart':
+        formEntries(request).forEach(([key, value]) => {
+          parts.push(request.fileFields?.includes(key) ? `--form ${shellQuote(`${key}=@${key}.bin`)}` : `--form ${shellQuote(`${key}=${value}`)}`);
+        });
+        break;
+      case 'form':
+        parts.push(`--data ${shellQuote(new URLSearchParams(formEntries(request)).toString())}`);
+        break;
+      case 'json':
+      case 'text':
+        parts.push(`--data '${bodyText(request).replace(/'/g, `'\\''`)}'`);
+        break;
+      case 'binary':
+        parts.push(`--data-binary @${BINARY_FILE}`);
+        break;
+    }
+    return parts.join(' \\\n  ');
+  },
+};
+
+const javascript: SnippetGenerator = {
+  id: 'javascript',
+  label: 'JavaScript (fetch)',
+  fence: 'javascript',
+  generate(request) {
+    const lines: string[] = [];
+    const kind = bodyKind(request);
+    if (kind === 'multipart') {
+      lines.push('const form = new FormData();');
+      formEntries(request).forEach(([key, value]) => {
+        lines.push(request.fileFields?.includes(key)
+          ? `form.append(${JSON.stringify(key)}, file); // a File or Blob`
+          : `form.append(${JSON.stringify(key)}, ${JSON.stringify(value)});`);
+      });
+      lines.push('');
+    }
+
+    lines.push(`const response = await fetch(${JSON.stringify(request.url)}, {`);
+    lines.push(`  method: ${JSON.stringify(request.method)},`);
+    const headers = Object.entries(explicitHeaders(request));
+    if (headers.length > 0) {
+      lines.push('  headers: {');
+      lines.push(headers.map(([name, value]) => `    ${JSON.stringify(name)}: ${JSON.stringify(value)}`).join(',\n'));
+      lines.push('  },');
+    }
+    if (kind === 'json') {
+      lines.push(`  body: JSON.stringify(${bodyText(request).split('\n').join('\n  ')}),`);
+    } else if (kind === 'form') {
+      lines.push(`  body: new URLSearchParams(${JSON.stringify(formFields(formEntries(request)), null, 2).split('\n').join('\n  ')}),`);
+    } else if (kind === 'multipart') {
+      lines.push('  body: form,');
+    } else if (kind === 'text') {
+      lines.push(`  body: ${JSON.stringify(bodyText(request))},`);
+    } else if (kind === 'binary') {
+      lines.push('  body: file, // a File, Blob or ArrayBuffer');
+    }
+    lines[lines.length - 1] = lines[lines.length - 1].replace(/,$/, '');
+    lines.push('});');
+    lines.push('const data = await response.json();');
+    return lines.join('\n');
+  },
+};
+
+const python: SnippetGenerator = {
+  id: 'python',
+  label: 'Python (requests)',
+  fence: 'python',
+  generate(request) {
+    const args: string[] = [JSON.stringify(request.url)];
+    const headers = { ...explicitHeaders(request) };
+    delete headers['Cookie'];
+    if (Object.keys(headers).length > 0) args.push(`headers=${toPython(headers, 1)}`);
+    if (Object.keys(request.cookies).length > 0) args.push(`cookies=${toPython(request.cookies, 1)}`);
+
+    switch (bodyKind(request)) {
+      case 'json':
+        args.push(`json=${toPython(request.body, 1)}`);
+        break;
+      case 'form':
+        args.push(`data=${toPython(formFields(formEntries(request)), 1)}`);
+        break;
+      case 'multipart': {
+        const entries = formEntries(request);
+        const files = entries.filter(([key]) => request.fileFields?.includes(key));
+        const fields = entries.filter(([key]) => !request.fileFields?.includes(key));
+        if (fields.length > 0) args.push(`data=${toPython(formFields(fields), 1)}`);
+        if (files.length > 0) {
+          const open = (key: string) => `open(${JSON.stringify(`${key}.bin`)}, "rb")`;
+          // A list of pairs when several files go under one name
+          args.push(new Set(files.map(([key]) => key)).size === files.length
+            ? `files={${files.map(([key]) => `${JSON.stringify(key)}: ${open(key)}`).join(', ')}}`
+            : `files=[${files.map(([key]) => `(${JSON.stringify(key)}, ${open(key)})`).join(', ')}]`);
+        }
+        break;
+      }
+      case 'text':
+        args.push(`data=${JSON.stringify(bodyText(request))}`);
+        break;
+      case 'binary':
+        args.push(`data=open(${JSON.stringify(BINARY_FILE)}, "rb")`);
+        break;
+    }
+
+    return [
+      'import requests',
+      '',
+      `response = requests.${request.method.toLowerCase()}(`,
+      args.map(arg => `    ${arg},`).join('\n'),
+      ')',
+      'print(response.json())',
+    ].join('\n');
+  },
+};
+
+const go: SnippetGenerator = {
+  id: 'go',
+  label: 'Go (net/http)',
+  fence: 'go',
+  generate(request) {
+    const kind = bodyKind(request);
+    const imports = new Set(['fmt', 'io', 'net/http']);
+    const body: string[] = [];
+    let bodyVar = 'nil';
+
+    if (kind === 'json' || kind === 'text') {
+      imports.add('strings');
+      body.push(`\tpayload := strings.NewReader(${goString(bodyText(request))})`);
+      bodyVar = 'payload';
+    } else if (kind === 'form') {
+      imports.add('net/url');
+      imports.add('strings');
+      body.push('\tform := url.Values{}');
+      formEntries(request).forEach(([key, value]) => body.push(`\tform.Add(${JSON.stringify(key)}, ${JSON.stringify(value)})`));
+      body.push('\tpayload := strings.NewReader(form.Encode())');
+      bodyVar = 'payload';
+    } else if (kind === 'multipart') {
+      imports.add('bytes');
+      imports.add('mime/multipart');
+      const fields = formEntries(request);
+      // Only file parts are read from disk
+      if (fields.some(([key]) => request.fileFields?.includes(key))) imports.add('os');
+      body.push('\tpayload := &bytes.Buffer{}');
+      body.push('\twriter := multipart.NewWriter(payload)');
+      fields.forEach(([key, value], index) => {
+        if (request.fileFields?.includes(key)) {
+          body.push(`\tfile${index}, _ := os.Open(${JSON.stringify(`${key}.bin`)})`);
+          body.push(`\tdefer file${index}.Close()`);
+          body.push(`\tpart${index}, _ := writer.CreateFormFile(${JSON.stringify(key)}, ${JSON.stringify(`${key}.bin`)})`);
+          body.push(`\tio.Copy(part${index}, file${index})`);
+        } else {
+          body.push(`\twriter.WriteField(${JSON.stringify(key)}, ${JSON.stringify(value)})`);
+        }
+      });
+      body.push('\twriter.Close()');
+      bodyVar = 'payload';
+    } else if (kind === 'binary') {
+      imports.add('os');
+      body.push(`\tpayload, _ := os.Open(${JSON.stringify(BINARY_FILE)})`);
+      body.push('\tdefer payload.Close()');
+      bodyVar = 'payload';
+    }
+
+    const lines: string[] = [
+      'package main',
+      '',
+      'import (',
+      ...Array.from(imports).sort().map(name => `\t"${name}"`),
+      ')',
+      '',
+      'func main() {',
+      ...body,
+      `\treq, err := http.NewRequest(${JSON.stringify(request.method)}, ${JSON.stringify(request.url)}, ${bodyVar})`,
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+    ];
+    if (kind === 'multipart') lines.push('\treq.Header.Set("Content-Type", writer.FormDataContentType())');
+    Object.entries(explicitHeaders(request)).forEach(([name, value]) => {
+      lines.push(`\treq.Header.Set(${JSON.stringify(name)}, ${JSON.stringify(value)})`);
+    });
+    lines.push(
+      '',
+      '\tres, err := http.DefaultClient.Do(req)',
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+      '\tdefer res.Body.Close()',
+      '',
+      '\tdata, _ := io.ReadAll(res.Body)',
+      '\tfmt.Println(string(data))',
+      '}',
+    );
+    return lines.join('\n');
+  },
+};
+
+const httpie: SnippetGenerator = {
+  id: 'httpie',
+  label: 'HTTPie',
+  fence: 'bash',
+  generate(request) {
+    const kind = bodyKind(request);
+    const flags = kind === 'form' ? ' --form' : kind === 'multipart' ? ' --multipart' : '';
+    const parts = [`http${flags} ${request.method} ${shellQuote(request.url)}`];
+    const headers = { ...explicitHeaders(request) };
+    // HTTPie sets these itself for form bodies
+    if (kind === 'form') delete headers['Content-Type'];
+    Object.entries(headers).forEach(([name, value]) => parts.push(shellQuote(`${name}:${value}`)));
+
+    if (kind === 'form' || kind === 'multipart') {
+      formEntries(request).forEach(([key, value]) => {
+        parts.push(request.fileFields?.includes(key) ? shellQuote(`${key}@${key}.bin`) : shellQuote(`${key}=${value}`));
+      });
+    }
+    const command = parts.join(' \\\n  ');
+    if (kind === 'binary') return `${command} < ${BINARY_FILE}`;
+    if (kind === 'json' || kind === 'text') {
+      return `echo '${bodyText(request).replace(/'/g, `'\\''`)}' | \\\n  ${command}`;
+    }
+    return command;
+  },
+};
+
+const generators = new Map<SnippetLanguage, SnippetGenerator>(
+  [curl, javascript, python, go, httpie].map(generator => [generator.id, generator])
+);
+
+/**
+ * Registers (or replaces) a snippet generator, making it available to `snippetLanguages`.
+ */
+export const registerSnippetGenerator = (generator: SnippetGenerator) => {
+  generators.set(generator.id, generator);
+};
+
+export const getSnippetGenerators = (): SnippetGenerator[] => Array.from(generators.values());
+
+/**
+ * Returns the generators for the requested languages, in the order given.
+ */
+export const resolveSnippetGenerators = (languages: SnippetLanguage[] = DEFAULT_SNIPPET_LANGUAGES): SnippetGenerator[] =>
+  languages.map(id => generators.get(id)).filter((g): g is SnippetGenerator => !!g);
+
+function toPython(value: any, level: number): string {
+  const pad = '    '.repeat(level);
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number' || typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(v => `${pad}    ${toPython(v, level + 1)}`).join(',\n')}\n${pad}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([k, v]) => `${pad}    ${JSON.stringify(k)}: ${toPython(v, level + 1)}`).join(',\n')}\n${pad}}`;
+}
+
+function goString(value: string): string {
+  return value.includes('`') ? JSON.stringify(value) : `\`${value}\``;
+}
@@ -0,0 +1,89 @@
+import { isAlias, isMap, isSeq, Node, parseDocument } from "yaml";
+import { OutputFile, SourceMapping } from "../types";
+import { parsePointer, toPointer } from "./refResolver";
+
+// Private-use characters around a JSON Pointer in rendered text, marking the line it starts
+const MARK_START = '\uE000';
+const MARK_END = '\uE001';
+const MARKS = /\uE000([^\uE001]*)\uE001/g;
+
+/**
+ * Indexes every object and array of a parsed spec by its JSON Pointer, so the rendering code can
+ * tell where a schema, parameter or operation it is given was written. The first path to an object
+ * wins when it is reachable more than once (YAML anchors).
+ */
+export const indexSourcePointers = (doc: any): WeakMap<object, string> => {
+  const pointers = new WeakMap<object, string>();
+  const visit = (value: any, segments: (string | number)[]) => {
+    if (value === null || typeof value !== 'object' || pointers.has(value)) return;
+    pointers.set(value, toPointer(segments));
+    if (Array.isArray(value)) value.forEach((item, i) => visit(item, [...segments, i]));
+    else Object.entries(value).forEach(([key, item]) => visit(item, [...segments, key]));
+  };
+  visit(doc, []);
+  return pointers;
+};
+
+/**
+ * The marker to prefix a rendered line with so it maps back to `pointer`; empty without one.
+ */
+export const sourceMark = (pointer: string | undefined): string =>
+  pointer === undefined ? '' : `${MARK_START}${pointer}${MARK_END}`;
+
+/**
+ * Strips the source markers from a rendered file, recording the line each one was on.
+ * Files without markers are returned as they are.
+ */
+export const extractSourceMap = (file: OutputFile): OutputFile => {
+  if (!file.content.includes(MARK_START)) return file;
+  const sourceMap: SourceMapping[] = [];
+  const content = file.content.split('\n').map((line, i) => line.includes(MARK_START)
+    ? line.replace(MARKS, (_, pointer: string) => {
+      sourceMap.push({ line: i + 1, pointer });
+      return '';
+    })
+    : line).join('\n');
+  return { ...file, content, sourceMap };
+};
+
+/**
+ * The spec location an output line comes from: the mapping on that line, else the closest one
+ * above it (a line inside an operation belongs to the operation).
+ */
+export const pointerAtLine = (sourceMap: SourceMapping[] | undefined, line: number): string | undefined => {
+  let found: string | undefined;
+  for (const mapping of sourceMap || []) {
+    if (mapping.line > line) break;
+    found = mapping.pointer;
+  }
+  return found;
+};
+
+/**
+ * Finds where the value at a JSON Pointer is written in JSON or YAML content: the 1-based line and
+ * column of its key, or of the item in a list. Undefined when the content has no such value.
+ */
+export const locatePointer = (content: string, pointer: string): { line: number; column: number } | undefined => {
+  const doc = parseDocument(content, { merge: true });
+  let node: unknown = doc.contents;
+  let offset = 0;
+  for (const segment of parsePointer(pointer)) {
+    if (isAlias(node)) node = node.resolve(doc);
+    if (isMap(node)) {
+      const pair = node.items.find(item => String((item.key as any)?.value ?? item.key) === segment);
+      if (!pair) return undefined;
+      offset = (pair.key as Node | null)?.range?.[0] ?? offset;
+      node = pair.value;
+    } else if (isSeq(node) && /^\d+$/.test(segment)) {
+      const item = node.items[Number(segment)] as Node | undefined;
+      if (!item) return undefined;
+      offset = item.range?.[0] ?? offset;
+      node = item;
+    } else {
+      return undefined;
+    }
+  }
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+};
@@ -0,0 +1,116 @@
+import { parseDocument } from "yaml";
+
+// A top-level version field of a root spec, with the version
+const ROOT_VERSION = /^\s*\{?\s*["']?(openapi|swagger|asyncapi)["']?\s*:\s*["']?([\w.-]*)/m;
+
+// Postman collections name their format version in `info.schema`
+const POSTMAN_SCHEMA = /schema\.getpostman\.com\/json\/collection\/(v[\d.]+)/;
+
+/**
+ * Parses a JSON or YAML specification into a plain object.
+ * JSON is detected by a leading `{` or `[`; everything else is read as YAML.
+ */
+export const parseSpecContent = (content: string): any => {
+  const text = content.replace(/^\uFEFF/, '');
+  const parsed = isJsonContent(text) ? parseJson(text) : parseYaml(text);
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error("The specification must be a JSON or YAML object.");
+  }
+  return parsed;
+};
+
+/**
+ * Returns true when the content looks like JSON rather than YAML.
+ */
+export const isJsonContent = (content: string): boolean => {
+  const first = content.trimStart()[0];
+  return first === '{' || first === '[';
+};
+
+/**
+ * Returns true when the raw content declares an OpenAPI, Swagger or AsyncAPI version or is a Postman
+ * collection, i.e. it is a root spec rather than a schema fragment referenced from one.
+ */
+export const isRootSpecContent = (content: string): boolean =>
+  ROOT_VERSION.test(content) || POSTMAN_SCHEMA.test(content);
+
+/**
+ * Names the input format of raw content, e.g. "AsyncAPI 3.0.0" or "Postman collection v2.1.0",
+ * without parsing it. Undefined when it is none of the supported ones.
+ */
+export const describeSpecFormat = (content: string): string | undefined => {
+  const version = ROOT_VERSION.exec(content);
+  if (version) {
+    const name = { openapi: 'OpenAPI', swagger: 'Swagger', asyncapi: 'AsyncAPI' }[version[1] as 'openapi' | 'swagger' | 'asyncapi'];
+    return version[2] ? `${name} ${version[2]}` : name;
+  }
+  const postman = POSTMAN_SCHEMA.exec(content);
+  if (postman) return `Postman collection ${postman[1]}`;
+  if (/^\s*\{?\s*["']?\$(schema|defs)["']?\s*:/m.test(content)) return 'JSON Schema';
+  return undefined;
+};
+
+// Root keywords that mark a bare JSON Schema (draft-04 to 2020-12) rather than an API description
+const JSON_SCHEMA_KEYWORDS = ['$schema', '$defs', 'definitions', 'type', 'properties', 'allOf', 'anyOf', 'oneOf'];
+
+/**
+ * Returns true for a parsed JSON Schema document, e.g. a config file or event payload schema:
+ * no OpenAPI or Swagger version and no paths, but schema keywords at the root.
+ */
+export const isJsonSchemaDocument = (doc: any): boolean =>
+  !!doc && typeof doc === 'object'
+  && doc.openapi === undefined && doc.swagger === undefined && doc.asyncapi === undefined
+  && doc.paths === undefined && doc.webhooks === undefined
+  && JSON_SCHEMA_KEYWORDS.some(keyword => doc[keyword] !== undefined);
+
+function parseJson(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch (e: any) {
+    const message = String(e?.message || 'Unexpected input');
+    const position = message.match(/at position (\d+)/);
+    if (position) {
+      const { line, column } = offsetToLineColumn(content, Number(position[1]));
+      const reason = message.replace(/\s*(in JSON )?at position \d+.*$/, '');
+      throw new Error(`Invalid JSON at line ${line}, column ${column}: ${reason}`);
+    }
+    // Some engines omit the offset; JSON is a YAML subset, so let the YAML parser locate it
+    const pos = parseDocument(content, { schema: 'json' }).errors[0]?.linePos?.[0];
+    const reason = message.replace(/, ".*" is not valid JSON$/s, '');
+    if (pos) {
+      throw new Error(`Invalid JSON at line ${pos.line}, column ${pos.col}: ${reason}`);
+    }
+    throw new Error(`Invalid JSON: ${reason}`);
+  }
+}
+
+function parseYaml(content: string): any {
+  const doc = parseDocument(content, { merge: true, prettyErrors: true });
+  const error = doc.errors[0];
+  if (error) {
+    const reason = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    const pos = error.linePos?.[0];
+    if (pos) {
+      throw new Error(`Invalid YAML at line ${pos.line}, column ${pos.col}: ${reason}`);
+    }
+    throw new Error(`Invalid YAML: ${reason}`);
+  }
+  try {
+    return doc.toJS();
+  } catch (e: any) {
+    throw new Error(`Invalid YAML: ${e?.message || 'Unable to resolve document'}`);
+  }
+}
+
+function offsetToLineColumn(content: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
@@ -0,0 +1,316 @@
+import { OpenAPISpec } from "../types";
+import { isAsyncApi, normalizeAsyncApi } from "./asyncApiNormalizer";
+import { isPostmanCollection, normalizePostmanCollection } from "./postmanNormalizer";
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+// Keys whose values are literal data and must never be rewritten.
+const LITERAL_KEYS = ['example', 'examples', 'default', 'enum', 'const', 'x-example'];
+
+// Keywords holding schemas by name; a name such as `default` there is a property, not a literal
+const SCHEMA_MAP_KEYS = ['properties', 'patternProperties', 'definitions'];
+
+const REF_PREFIXES: [string, string][] = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/'],
+];
+
+const OAUTH_FLOWS: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+};
+
+/**
+ * Returns true for Swagger 2.0 documents.
+ */
+export const isSwagger2 = (spec: any): boolean =>
+  typeof spec?.swagger === 'string' && spec.swagger.startsWith('2');
+
+/**
+ * Brings any supported spec version or input format (Swagger 2.0, AsyncAPI, Postman collections)
+ * into the OpenAPI 3.x shape used by the renderer.
+ */
+export const normalizeSpec = (spec: any): OpenAPISpec => {
+  if (isSwagger2(spec)) return normalizeSwagger2(spec);
+  if (isAsyncApi(spec)) return normalizeAsyncApi(spec);
+  if (isPostmanCollection(spec)) return normalizePostmanCollection(spec);
+  return spec;
+};
+
+/**
+ * Converts a Swagger 2.0 document into the equivalent OpenAPI 3.0 structure so
+ * both versions flow through the same rendering code.
+ */
+export const normalizeSwagger2 = (spec: any): OpenAPISpec => {
+  const consumes: string[] = spec.consumes || [];
+  const produces: string[] = spec.produces || [];
+
+  const components: any = {};
+  if (spec.definitions) components.schemas = mapValues(spec.definitions, convertSchema);
+  if (spec.responses) {
+    components.responses = mapValues(spec.responses, (r: any) => convertResponse(r, produces));
+  }
+  if (spec.parameters) {
+    // Body and formData parameters have no 3.x parameter equivalent; they are inlined per operation
+    const params = Object.entries(spec.parameters).filter(([, p]: [string, any]) => !isBodyLike(p));
+    if (params.length > 0) {
+      components.parameters = Object.fromEntries(params.map(([name, p]) => [name, convertParameter(p)]));
+    }
+  }
+  if (spec.securityDefinitions) {
+    components.securitySchemes = mapValues(spec.securityDefinitions, convertSecurityScheme);
+  }
+
+  const paths: Record<string, any> = {};
+  Object.entries(spec.paths || {}).forEach(([path, item]: [string, any]) => {
+    if (!item || typeof item !== 'object') return;
+    const pathParams: any[] = (item.parameters || []).map((p: any) => resolveGlobalParameter(p, spec));
+    const converted: any = copyExtensions(item);
+    if (item.summary) converted.summary = item.summary;
+    if (item.description) converted.description = item.description;
+
+    const sharedParams = pathParams.filter(p => !isBodyLike(p)).map(convertParameter);
+    if (sharedParams.length > 0) converted.parameters = sharedParams;
+
+    Object.entries(item).forEach(([method, op]: [string, any]) => {
+      if (!HTTP_METHODS.includes(method.toLowerCase())) return;
+      converted[method] = convertOperation(op, pathParams, spec, consumes, produces);
+    });
+    paths[path] = converted;
+  });
+
+  const result: any = {
+    ...copyExtensions(spec),
+    openapi: '3.0.3',
+    info: spec.info,
+    paths,
+  };
+  const servers = buildServers(spec);
+  if (servers.length > 0) result.servers = servers;
+  if (Object.keys(components).length > 0) result.components = components;
+  if (spec.security) result.security = spec.security;
+  if (spec.tags) result.tags = spec.tags;
+  if (spec.externalDocs) result.externalDocs = spec.externalDocs;
+  result['x-original-swagger'] = spec.swagger;
+  return result;
+};
+
+function convertOperation(op: any, pathParams: any[], spec: any, globalConsumes: string[], globalProduces: string[]): any {
+  const consumes: string[] = op.consumes || globalConsumes;
+  const produces: string[] = op.produces || globalProduces;
+  const { parameters, consumes: _c, produces: _p, responses, schemes, ...rest } = op;
+
+  const converted: any = { ...rest };
+
+  // Body and formData parameters become the request body; an operation-level one overrides a path-level one
+  const opParams: any[] = (parameters || []).map((p: any) => resolveGlobalParameter(p, spec));
+  const bodyLike = uniqueByLocation([...pathParams, ...opParams].filter(isBodyLike));
+  const bodyParam = bodyLike.find(p => p.in === 'body');
+  const formParams = bodyLike.filter(p => p.in === 'formData');
+
+  const plain = opParams.filter(p => !isBodyLike(p));
+  if (plain.length > 0) converted.parameters = plain.map(convertParameter);
+
+  if (bodyParam) {
+    converted.requestBody = buildBody(bodyParam, consumes);
+  } else if (formParams.length > 0) {
+    converted.requestBody = buildFormBody(formParams, consumes);
+  }
+
+  converted.responses = mapValues(responses || {}, (r: any) => convertResponse(r, produces));
+  if (schemes) converted['x-schemes'] = schemes;
+  return converted;
+}
+
+function buildBody(param: any, consumes: string[]): any {
+  const mediaTypes = consumes.length > 0 ? consumes : ['application/json'];
+  const schema = convertSchema(param.schema || {});
+  const body: any = {
+    content: Object.fromEntries(mediaTypes.map(type => {
+      const media: any = { schema };
+      if (param['x-example'] !== undefined) media.example = param['x-example'];
+      return [type, media];
+    })),
+  };
+  if (param.description) body.description = param.description;
+  if (param.required) body.required = true;
+  if (param['x-body-name'] || param.name) body['x-body-name'] = param['x-body-name'] || param.name;
+  return body;
+}
+
+function buildFormBody(params: any[], consumes: string[]): any {
+  const hasFile = params.some(p => p.type === 'file');
+  const formTypes = consumes.filter(t => t === 'multipart/form-data' || t === 'application/x-www-form-urlencoded');
+  const mediaTypes = formTypes.length > 0
+    ? formTypes
+    : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+  const schema: any = { type: 'object', properties: {} };
+  const required: string[] = [];
+  params.forEach(p => {
+    schema.properties[p.name] = convertSchema({ ...pickSchemaFields(p), description: p.description });
+    if (p.required) required.push(p.name);
+  });
+  if (required.length > 0) schema.required = required;
+
+  return {
+    content: Object.fromEntries(mediaTypes.map(type => [type, { schema }])),
+    ...(required.length > 0 ? { required: true } : {}),
+  };
+}
+
+function convertParameter(param: any): any {
+  if (param.$ref) return { $ref: rewriteRef(param.$ref) };
+  const { type, format, items, collectionFormat, default: def, maximum, exclusiveMaximum, minimum, exclusiveMinimum,
+    maxLength, minLength, pattern, maxItems, minItems, uniqueItems, enum: enums, multipleOf, allowEmptyValue,
+    'x-example': xExample, ...rest } = param;
+
+  const converted: any = { ...rest, schema: convertSchema(pickSchemaFields(param)) };
+  if (allowEmptyValue) converted.allowEmptyValue = true;
+  if (xExample !== undefined) converted.example = xExample;
+
+  const style = collectionFormatStyle(collectionFormat, param.in);
+  if (style) Object.assign(converted, style);
+  return converted;
+}
+
+function collectionFormatStyle(format: string | undefined, location: string): any {
+  switch (format) {
+    case 'csv': return { style: location === 'query' ? 'form' : 'simple', explode: false };
+    case 'ssv': return { style: 'spaceDelimited', explode: false };
+    case 'pipes': return { style: 'pipeDelimited', explode: false };
+    case 'multi': return { style: 'form', explode: true };
+    case 'tsv': return { style: 'tabDelimited', explode: false };
+    default: return null;
+  }
+}
+
+function pickSchemaFields(param: any): any {
+  const keys = ['type', 'format', 'items', 'default', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+    'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'enum', 'multipleOf'];
+  const schema: any = {};
+  keys.forEach(key => {
+    if (param[key] !== undefined) schema[key] = param[key];
+  });
+  if (param['x-example'] !== undefined) schema.example = param['x-example'];
+  return schema;
+}
+
+function convertResponse(response: any, produces: string[]): any {
+  if (!response || typeof response !== 'object') return response;
+  if (response.$ref) return { $ref: rewriteRef(response.$ref) };
+
+  const { schema, examples, headers, ...rest } = response;
+  const converted: any = { ...rest };
+  if (schema) {
+    const mediaTypes = produces.length > 0 ? produces : ['application/json'];
+    const convertedSchema = convertSchema(schema);
+    converted.content = Object.fromEntries(mediaTypes.map(type => {
+      const media: any = { schema: convertedSchema };
+      if (examples?.[type] !== undefined) media.example = examples[type];
+      return [type, media];
+    }));
+  }
+  if (headers) {
+    converted.headers = mapValues(headers, (h: any) => {
+      const { description, ...schemaFields } = h;
+      return { ...(description ? { description } : {}), schema: convertSchema(pickSchemaFields(schemaFields)) };
+    });
+  }
+  return converted;
+}
+
+function convertSecurityScheme(scheme: any): any {
+  const description = scheme.description ? { description: scheme.description } : {};
+  switch (scheme.type) {
+    case 'basic':
+      return { type: 'http', scheme: 'basic', ...description };
+    case 'apiKey':
+      return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+    case 'oauth2': {
+      const flow: any = { scopes: scheme.scopes || {} };
+      if (scheme.authorizationUrl) flow.authorizationUrl = scheme.authorizationUrl;
+      if (scheme.tokenUrl) flow.tokenUrl = scheme.tokenUrl;
+      return { type: 'oauth2', flows: { [OAUTH_FLOWS[scheme.flow] || scheme.flow]: flow }, ...description };
+    }
+    default:
+      return scheme;
+  }
+}
+
+function buildServers(spec: any): any[] {
+  if (!spec.host && !spec.basePath) return [];
+  const basePath = spec.basePath && spec.basePath !== '/' ? spec.basePath : '';
+  if (!spec.host) return [{ url: basePath || '/' }];
+  const schemes: string[] = spec.schemes?.length ? spec.schemes : ['https'];
+  return schemes.map(scheme => ({ url: `${scheme}://${spec.host}${basePath}` }));
+}
+
+/**
+ * Recursively rewrites refs and 2.0-only schema keywords into their 3.0 forms.
+ */
+function convertSchema(schema: any, seen = new WeakMap<object, any>()): any {
+  if (Array.isArray(schema)) return schema.map(item => convertSchema(item, seen));
+  if (!schema || typeof schema !== 'object') return schema;
+  if (seen.has(schema)) return seen.get(schema);
+
+  const result: any = {};
+  seen.set(schema, result);
+  Object.entries(schema).forEach(([key, value]) => {
+    if (SCHEMA_MAP_KEYS.includes(key) && value && typeof value === 'object' && !Array.isArray(value)) {
+      result[key] = mapValues(value, sub => convertSchema(sub, seen));
+    } else if (LITERAL_KEYS.includes(key)) {
+      result[key] = value;
+    } else if (key === '$ref' && typeof value === 'string') {
+      result.$ref = rewriteRef(value);
+    } else if (key === 'x-nullable') {
+      result.nullable = value;
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      result.discriminator = { propertyName: value };
+    } else {
+      result[key] = convertSchema(value, seen);
+    }
+  });
+  if (result.type === 'file') {
+    result.type = 'string';
+    result.format = 'binary';
+  }
+  return result;
+}
+
+function rewriteRef(ref: string): string {
+  for (const [from, to] of REF_PREFIXES) {
+    if (ref.startsWith(from)) return to + ref.slice(from.length);
+  }
+  return ref;
+}
+
+function resolveGlobalParameter(param: any, spec: any): any {
+  if (param?.$ref?.startsWith('#/parameters/')) {
+    const target = spec.parameters?.[param.$ref.slice('#/parameters/'.length)];
+    // Only body-like parameters need inlining; the rest keep their (rewritten) ref
+    if (target && isBodyLike(target)) return target;
+  }
+  return param;
+}
+
+function uniqueByLocation(params: any[]): any[] {
+  const byKey = new Map<string, any>();
+  params.forEach(p => byKey.set(`${p.in}:${p.name}`, p));
+  return Array.from(byKey.values());
+}
+
+function isBodyLike(param: any): boolean {
+  return param?.in === 'body' || param?.in === 'formData';
+}
+
+function copyExtensions(source: any): any {
+  return Object.fromEntries(Object.entries(source).filter(([key]) => key.startsWith('x-')));
+}
+
+function mapValues(source: Record<string, any>, fn: (value: any) => any): Record<string, any> {
+  return Object.fromEntries(Object.entries(source).map(([key, value]) => [key, fn(value)]));
+}
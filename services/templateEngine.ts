@@ -0,0 +1,111 @@
+/**
+ * A compiled template; `render` fills it in from a context object.
+ */
+export interface Template {
+  render(context: any): string;
+}
+
+type TemplateNode =
+  | string
+  | { kind: 'value'; name: string }
+  | { kind: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+// `{{name}}`, `{{#name}}`, `{{^name}}`, `{{/name}}` or `{{! comment }}`
+const TAG = /\{\{\s*([#^\/!]?)\s*([\s\S]*?)\s*\}\}/g;
+
+/**
+ * Compiles a logic-light, Mustache-style template:
+ *
+ * - `{{name}}` inserts a value as-is (the output is Markdown, so nothing is escaped);
+ *   `{{a.b}}` reads a nested field and `{{.}}` the current item.
+ * - `{{#name}}…{{/name}}` renders its content once for a truthy value, once per item of a
+ *   non-empty list, and not at all otherwise; inside, the value's fields are in scope.
+ * - `{{^name}}…{{/name}}` renders its content only when the value is falsy or an empty list.
+ * - `{{! comment }}` renders nothing.
+ *
+ * A section, closing or comment tag alone on its line removes the whole line, so block tags
+ * can sit on lines of their own without leaving blank lines behind. Throws on unbalanced sections.
+ */
+export const compileTemplate = (source: string): Template => {
+  const root: TemplateNode[] = [];
+  const open: { name: string; index: number; children: TemplateNode[] }[] = [];
+  let children = root;
+  let cursor = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, sigil, name] = match;
+    const start = match.index!;
+    const end = start + tag.length;
+    const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+    const newline = source.indexOf('\n', end);
+    const lineEnd = newline === -1 ? source.length : newline;
+    const standalone = sigil !== '' && lineStart >= cursor
+      && /^[ \t]*$/.test(source.slice(lineStart, start)) && /^[ \t]*\r?$/.test(source.slice(end, lineEnd));
+
+    const text = source.slice(cursor, standalone ? lineStart : start);
+    if (text) children.push(text);
+    cursor = standalone ? (newline === -1 ? source.length : newline + 1) : end;
+
+    if (sigil === '!') continue;
+    if (!name) throw new Error(`Line ${lineOf(source, start)}: empty tag ${tag}`);
+    if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = { kind: 'section', name, inverted: sigil === '^', children: [] };
+      children.push(section);
+      open.push({ name, index: start, children });
+      children = section.children;
+    } else if (sigil === '/') {
+      const closing = open.pop();
+      if (!closing) throw new Error(`Line ${lineOf(source, start)}: {{/${name}}} closes no section`);
+      if (closing.name !== name) throw new Error(`Line ${lineOf(source, start)}: {{/${name}}} does not close {{#${closing.name}}}`);
+      children = closing.children;
+    } else {
+      children.push({ kind: 'value', name });
+    }
+  }
+  const unclosed = open.pop();
+  if (unclosed) throw new Error(`Line ${lineOf(source, unclosed.index)}: {{#${unclosed.name}}} is never closed`);
+  const rest = source.slice(cursor);
+  if (rest) children.push(rest);
+
+  return { render: context => renderNodes(root, [context]) };
+};
+
+function renderNodes(nodes: TemplateNode[], stack: any[]): string {
+  let out = '';
+  nodes.forEach(node => {
+    if (typeof node === 'string') {
+      out += node;
+    } else if (node.kind === 'value') {
+      out += stringify(lookup(node.name, stack));
+    } else {
+      const value = lookup(node.name, stack);
+      const empty = !value || (Array.isArray(value) && value.length === 0);
+      if (node.inverted) {
+        if (empty) out += renderNodes(node.children, stack);
+      } else if (Array.isArray(value)) {
+        value.forEach(item => { out += renderNodes(node.children, [...stack, item]); });
+      } else if (!empty) {
+        out += renderNodes(node.children, [...stack, value]);
+      }
+    }
+  });
+  return out;
+}
+
+// The innermost scope holding the first part of the name, then the rest as a field path
+function lookup(name: string, stack: any[]): any {
+  if (name === '.') return stack[stack.length - 1];
+  const [first, ...rest] = name.split('.');
+  const scope = [...stack].reverse().find(frame => frame !== null && typeof frame === 'object' && first in frame);
+  return rest.reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), scope?.[first]);
+}
+
+function stringify(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function lineOf(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length;
+}
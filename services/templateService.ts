@@ -0,0 +1,213 @@
+import { OutputTemplates, TemplateSlot } from "../types";
+import { compileTemplate, Template } from "./templateEngine";
+
+/**
+ * The built-in templates, which reproduce the standard llm.txt layout. Every template line ends
+ * in a newline; blocks are inserted on lines of their own inside a section, so empty ones vanish.
+ */
+export const DEFAULT_TEMPLATES: Record<TemplateSlot, string> = {
+  header: [
+    '# {{title}}',
+    '{{#description}}',
+    '{{description}}',
+    '{{/description}}',
+    '{{^description}}',
+    'No description provided.',
+    '{{/description}}',
+    '',
+    '{{#baseUrls}}',
+    '{{baseUrls}}',
+    '{{/baseUrls}}',
+    '{{#authentication}}',
+    '{{authentication}}',
+    '{{/authentication}}',
+    '',
+  ].join('\n'),
+  operation: [
+    '{{#anchor}}',
+    '{{anchor}}',
+    '{{/anchor}}',
+    '### {{label}} - {{title}}',
+    '{{#description}}',
+    '{{description}}',
+    '{{/description}}',
+    '{{#authentication}}',
+    '**Authentication:** {{authentication}}',
+    '{{/authentication}}',
+    '{{#servers}}',
+    '**Base URLs:**',
+    '{{servers}}',
+    '{{/servers}}',
+    '',
+    '#### Input',
+    '{{#parameters}}',
+    '**Parameters:**',
+    '{{parameters}}',
+    '{{/parameters}}',
+    '{{#hasRequestBody}}',
+    '**Request Body:**',
+    '{{#requestBody}}',
+    '{{requestBody}}',
+    '{{/requestBody}}',
+    '{{/hasRequestBody}}',
+    '{{^hasInput}}',
+    '- No input parameters required.',
+    '{{/hasInput}}',
+    '',
+    '{{#requestExamples}}',
+    '{{requestExamples}}',
+    '{{/requestExamples}}',
+    '#### Output',
+    '{{output}}',
+    '{{#callbacks}}',
+    '{{callbacks}}',
+    '{{/callbacks}}',
+    '{{#hasSnippets}}',
+    '#### Usage Examples',
+    '',
+    '{{#snippets}}',
+    '##### {{label}}',
+    '```{{fence}}',
+    '{{code}}',
+    '```',
+    '',
+    '{{/snippets}}',
+    '{{/hasSnippets}}',
+    '---',
+    '',
+    '',
+  ].join('\n'),
+  parameter: '{{indent}}- `{{name}}` [{{#required}}**Required**{{/required}}{{^required}}Optional{{/required}}] ({{^responseHeader}}{{in}}, {{/responseHeader}}{{details}}): {{description}}{{^description}}No description{{/description}}\n',
+  field: '{{indent}}- `{{name}}` [{{#required}}**Required**{{/required}}{{^required}}Optional{{/required}}] ({{details}}){{#description}}: {{description}}{{/description}}\n',
+  example: [
+    '{{indent}}{{title}}:',
+    '{{indent}}```{{fence}}',
+    '{{code}}',
+    '{{indent}}```',
+    '{{^indent}}',
+    '',
+    '{{/indent}}',
+  ].join('\n'),
+};
+
+/**
+ * The template slots in the order the editor lists them, each with the variables its context
+ * offers (see the `*TemplateContext` types for the full description).
+ */
+export const TEMPLATE_SLOTS: { id: TemplateSlot; label: string; variables: Record<string, string> }[] = [
+  {
+    id: 'header',
+    label: 'Document header',
+    variables: {
+      title: 'API title',
+      version: 'API version',
+      description: 'API description, empty when there is none',
+      baseUrls: 'The Base URLs section',
+      authentication: 'The Authentication section, empty without security schemes',
+      servers: 'List of servers: url, description, variables',
+      baseUrl: 'Base URL the usage examples call',
+    },
+  },
+  {
+    id: 'operation',
+    label: 'Operation block',
+    variables: {
+      anchor: 'Link target, set only when something links to operations',
+      method: 'Upper-case method',
+      path: 'Path (or channel)',
+      label: '`METHOD /path`',
+      title: 'Summary, else operation id, else "No summary"',
+      summary: 'Summary',
+      operationId: 'Operation id',
+      description: 'Description',
+      deprecated: 'Whether it is deprecated',
+      tags: 'List of tags',
+      authentication: 'Security requirements in words',
+      baseUrl: 'Base URL the snippets call',
+      servers: 'The operation\'s own servers, if any',
+      parameters: 'Parameter lines (parameter template)',
+      hasRequestBody: 'Whether there is a request body',
+      requestBody: 'Request body fields (field template)',
+      hasInput: 'Whether there are parameters or a body',
+      requestExamples: 'Request examples (example template)',
+      output: 'Responses with fields, examples, headers and links',
+      callbacks: 'Callback requests',
+      hasSnippets: 'Whether usage snippets apply',
+      snippets: 'List of snippets: label, fence, code',
+    },
+  },
+  {
+    id: 'parameter',
+    label: 'Parameter line',
+    variables: {
+      indent: 'Leading spaces of the nesting level',
+      name: 'Parameter name',
+      in: 'path, query, header or cookie',
+      required: 'Whether it is required',
+      deprecated: 'Whether it is deprecated',
+      details: 'Type, constraints and serialization',
+      description: 'Description',
+      responseHeader: 'Set for response headers',
+    },
+  },
+  {
+    id: 'field',
+    label: 'Schema field line',
+    variables: {
+      indent: 'Leading spaces of the nesting level',
+      name: 'Property name',
+      required: 'Whether it is required',
+      details: 'Type and constraints, or a shared schema link',
+      description: 'Description',
+      depth: 'Nesting level, 0 at the top',
+      sharedSchema: 'Shared schema linked to, if any',
+    },
+  },
+  {
+    id: 'example',
+    label: 'Example block',
+    variables: {
+      indent: 'Leading spaces; response examples are indented',
+      title: 'Default title, e.g. **Full Example**',
+      kind: 'required, full, response or schema',
+      is: 'The kind as flags, e.g. {{#is.response}}',
+      mediaType: 'Media type',
+      showMediaType: 'Whether there are several media types',
+      fence: 'Code fence language',
+      code: 'The formatted example, indented',
+    },
+  },
+];
+
+/**
+ * Compiles the given templates over the defaults. Throws naming the slot of an invalid one.
+ */
+export const compileTemplates = (templates: OutputTemplates = {}): Record<TemplateSlot, Template> =>
+  Object.fromEntries(TEMPLATE_SLOTS.map(({ id, label }) => {
+    try {
+      return [id, compileTemplate(templates[id] ?? DEFAULT_TEMPLATES[id])];
+    } catch (e: any) {
+      throw new Error(`Invalid ${label.toLowerCase()} template: ${e.message}`);
+    }
+  })) as Record<TemplateSlot, Template>;
+
+/**
+ * Reads templates saved as JSON (slot -> source), as exported by the web app. Throws on anything
+ * else, naming the problem.
+ */
+export const parseTemplates = (content: string): OutputTemplates => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e: any) {
+    throw new Error(`Templates are not valid JSON: ${e.message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Templates must be a JSON object of template sources by slot.');
+  const slots = TEMPLATE_SLOTS.map(slot => slot.id as string);
+  Object.entries(parsed).forEach(([slot, source]) => {
+    if (!slots.includes(slot)) throw new Error(`Unknown template slot "${slot}". Expected one of: ${slots.join(', ')}`);
+    if (typeof source !== 'string') throw new Error(`The ${slot} template must be a string.`);
+  });
+  compileTemplates(parsed);
+  return parsed;
+};
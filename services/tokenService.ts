@@ -0,0 +1,44 @@
+import { TokenSection } from "../types";
+
+// English prose and Markdown average roughly four characters per token across common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of LLM tokens in a text. It is a heuristic, not a tokenizer,
+ * but is stable and close enough to budget against.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Splits rendered Markdown into its `##` sections, each with its `###` subsections
+ * (operations, schemas), and estimates the size of each. Text before the first `##`
+ * is reported as "Header"; headings inside code fences are ignored.
+ */
+export const measureSections = (content: string): TokenSection[] => {
+  const sections: { title: string; chars: number; children: { title: string; chars: number }[] }[] = [
+    { title: 'Header', chars: 0, children: [] },
+  ];
+  let inFence = false;
+
+  content.split('\n').forEach(line => {
+    if (line.trimStart().startsWith('```')) inFence = !inFence;
+    let section = sections[sections.length - 1];
+    if (!inFence && line.startsWith('## ')) {
+      section = { title: line.slice(3).trim(), chars: 0, children: [] };
+      sections.push(section);
+    } else if (!inFence && line.startsWith('### ')) {
+      section.children.push({ title: line.slice(4).trim(), chars: 0 });
+    }
+    const size = line.length + 1;
+    section.chars += size;
+    if (section.children.length > 0) section.children[section.children.length - 1].chars += size;
+  });
+
+  return sections
+    .filter(section => section.chars > 0)
+    .map(section => ({
+      title: section.title,
+      tokens: Math.ceil(section.chars / CHARS_PER_TOKEN),
+      children: section.children.map(child => ({ title: child.title, tokens: Math.ceil(child.chars / CHARS_PER_TOKEN), children: [] })),
+    }));
+};
@@ -1,9 +1,128 @@
 
+/**
+ * The parsed structure of a spec that non-Markdown renderers work from. Schemas are plain
+ * JSON Schema with every `$ref` inlined (the component name kept as `title`), fields hidden
+ * in their direction (`readOnly` in requests, `writeOnly` in responses) left out.
+ */
+export interface ApiDocument {
+  title: string;
+  version?: string;
+  description?: string;
+  baseUrl: string;
+  /** One line per security scheme, e.g. "`api_key`: API key in header `X-API-Key`". */
+  auth: string[];
+  operations: ApiOperation[];
+  /** Component schemas used by the operations, by name. */
+  schemas: Record<string, any>;
+}
+
+export interface ApiOperation {
+  /** `operationId`, or `METHOD /path` when there is none. */
+  id: string;
+  /** Upper-case HTTP method. */
+  method: string;
+  path: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  deprecated: boolean;
+  /** How to authenticate, e.g. "`bearer`", or undefined when the operation is public. */
+  auth?: string;
+  /** Set when the operation is called on another base URL than the document's. */
+  baseUrl?: string;
+  parameters: ApiParameter[];
+  requestBody?: ApiBody;
+  responses: ApiResponse[];
+}
+
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required: boolean;
+  deprecated: boolean;
+  description?: string;
+  schema: any;
+  example?: any;
+}
+
+export interface ApiBody {
+  /** The media type snippets and tools use; others are listed in `contentTypes`. */
+  contentType: string;
+  contentTypes: string[];
+  required: boolean;
+  description?: string;
+  schema: any;
+  example?: any;
+}
+
+export interface ApiResponse {
+  status: string;
+  description?: string;
+  contentType?: string;
+  schema?: any;
+  example?: any;
+}
+
+/**
+ * How far a running conversion has got, in operations and webhooks rendered.
+ */
+export interface ConversionProgress {
+  done: number;
+  total: number;
+}
+
 export interface ConversionState {
   isLoading: boolean;
   error: string | null;
   result: string | null;
+  files: OutputFile[] | null;
+  diagnostics: Diagnostic[];
+  tokens: TokenReport | null;
+  /** Every operation of the uploaded spec, for picking which ones to convert. */
+  operations: OperationSummary[];
+  /** The uploaded spec's top-level servers, for the environment picker. */
+  servers: ServerSummary[];
   fileName: string | null;
+  /** Input format detected in the uploaded root file, e.g. "AsyncAPI 3.0.0". */
+  specFormat: string | null;
+}
+
+/**
+ * The uploaded root spec and the other files its relative `$ref`s may point into.
+ */
+export interface SpecInput {
+  content: string;
+  fileName: string;
+  externalFiles: Record<string, string>;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found in the spec, located by a JSON Pointer into the root document.
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  /** Stable machine-readable identifier, e.g. `unresolved-ref`. */
+  code: string;
+  message: string;
+  pointer: string;
+}
+
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export type ChangeKind = 'added' | 'removed' | 'deprecated' | 'changed';
+
+/**
+ * One difference between two versions of a spec, as listed in the changelog.
+ */
+export interface SpecChange {
+  severity: ChangeSeverity;
+  kind: ChangeKind;
+  /** `METHOD /path` of the affected endpoint. */
+  operation: string;
+  summary?: string;
+  message: string;
 }
 
 export interface OpenAPIInfo {
@@ -15,7 +134,324 @@ export interface OpenAPIInfo {
 export interface OpenAPISpec {
   openapi?: string;
   swagger?: string;
-  info: OpenAPIInfo;
+  info?: OpenAPIInfo;
   paths: Record<string, any>;
   components?: any;
 }
+
+/**
+ * `single`: one flat Endpoints list. `grouped`: one section per tag.
+ * `split`: an `llms.txt` index plus one detail file per tag.
+ */
+export type OutputMode = 'single' | 'grouped' | 'split';
+
+/**
+ * `llm-txt` is the full Markdown reference; the others are rendered from the document model:
+ * a compact Markdown digest, function-calling tool definitions and an MCP tool manifest.
+ */
+export type OutputFormat = 'llm-txt' | 'llms-small' | 'tools-json' | 'mcp';
+
+export interface OutputFile {
+  path: string;
+  content: string;
+  /** Where output lines come from in the spec, in line order; set with the `sourceMap` option. */
+  sourceMap?: SourceMapping[];
+}
+
+/**
+ * An output line traced back to the part of the spec it describes: an operation, parameter or field.
+ */
+export interface SourceMapping {
+  /** 1-based line in the output file. */
+  line: number;
+  /** JSON Pointer into the root spec, e.g. `/paths/~1pets/get`. */
+  pointer: string;
+}
+
+export interface ConversionResult {
+  files: OutputFile[];
+  diagnostics: Diagnostic[];
+  tokens: TokenReport;
+}
+
+/**
+ * Compaction steps, applied in this order until the output fits the token budget.
+ */
+export type CompactionStep = 'examples' | 'schemas' | 'descriptions' | 'deprecated';
+
+/**
+ * Estimated size of one `##` section (or, in `children`, one `###` operation inside it).
+ */
+export interface TokenSection {
+  title: string;
+  tokens: number;
+  children: TokenSection[];
+}
+
+export interface FileTokens {
+  path: string;
+  tokens: number;
+  sections: TokenSection[];
+}
+
+/**
+ * What one compaction step changed; `items` lists every operation, schema or field affected.
+ */
+export interface CompactionEntry {
+  step: CompactionStep;
+  message: string;
+  items: string[];
+}
+
+export interface TokenReport {
+  budget?: number;
+  files: FileTokens[];
+  compaction: CompactionEntry[];
+  /** True when even full compaction could not bring every file under the budget. */
+  overBudget: boolean;
+}
+
+/**
+ * Which operations to convert. Every criterion that is set must match; unset ones match everything.
+ * Operations are named `METHOD /path`, e.g. `GET /v2/billing/invoices`.
+ */
+export interface OperationFilter {
+  /** Keep only operations with at least one of these tags. */
+  includeTags?: string[];
+  excludeTags?: string[];
+  /** Path globs: `*` matches within one path segment, `**` across segments. */
+  includePaths?: string[];
+  excludePaths?: string[];
+  /** Lower-case HTTP methods (or message actions) to keep. */
+  methods?: string[];
+  excludeDeprecated?: boolean;
+  /** Vendor extensions, e.g. `x-internal`, that drop an operation when set to a truthy value on it or its path. */
+  excludeExtensions?: string[];
+  /** Individual operations deselected by name. */
+  excludeOperations?: string[];
+}
+
+/**
+ * An operation as listed for selection, in output order.
+ */
+export interface OperationSummary {
+  /** `METHOD /path`. */
+  name: string;
+  method: string;
+  path: string;
+  summary?: string;
+  tags: string[];
+  /** The tag section the operation is rendered under. */
+  group: string;
+  deprecated: boolean;
+  /** Whether the filter rules (not counting `excludeOperations`) keep this operation. */
+  matched: boolean;
+}
+
+/**
+ * A server (base URL) the spec declares, as listed for choosing the one usage snippets call.
+ */
+export interface ServerSummary {
+  /** The URL as declared, possibly relative and with `{variable}` placeholders. */
+  url: string;
+  description?: string;
+  variables: ServerVariableSummary[];
+}
+
+export interface ServerVariableSummary {
+  name: string;
+  default: string;
+  /** The only values allowed, when the spec restricts them. */
+  enum?: string[];
+  description?: string;
+}
+
+/**
+ * Which model the AI enhancement step calls. Unset fields fall back to the provider's defaults.
+ */
+export interface LlmProviderConfig {
+  /** Id of a registered provider, e.g. `gemini`, `openai` or `mock`. */
+  provider: string;
+  apiKey?: string;
+  model?: string;
+  /** API root for OpenAI-compatible servers, e.g. `http://localhost:11434/v1`. */
+  baseUrl?: string;
+}
+
+/**
+ * One operation section the model rewrote, before and after.
+ */
+export interface EnhanceChange {
+  path: string;
+  /** `METHOD /path`. */
+  operation: string;
+  before: string;
+  after: string;
+}
+
+export interface EnhanceResult {
+  files: OutputFile[];
+  changes: EnhanceChange[];
+  /** Sections left as generated because the model's answer was unusable, with the reason. */
+  skipped: { path: string; operation: string; reason: string }[];
+}
+
+export type SnippetLanguage = 'curl' | 'javascript' | 'python' | 'go' | 'httpie';
+
+/**
+ * The parts of the llm.txt output a template can replace: the document header (the split layout's
+ * index keeps its own), each operation block, each parameter (and response header) line, each
+ * schema field line and each example block.
+ */
+export type TemplateSlot = 'header' | 'operation' | 'parameter' | 'field' | 'example';
+
+/** Template source by slot; slots left out use the built-in default. */
+export type OutputTemplates = Partial<Record<TemplateSlot, string>>;
+
+/**
+ * What the `header` template is rendered with. Blocks (`baseUrls`, `authentication`) are
+ * already rendered Markdown, empty when there is nothing to show.
+ */
+export interface HeaderTemplateContext {
+  title: string;
+  version?: string;
+  /** The API description, empty when there is none. */
+  description: string;
+  /** The `## Base URLs` section. */
+  baseUrls: string;
+  /** The `## Authentication` section. */
+  authentication: string;
+  servers: ServerSummary[];
+  /** The base URL usage examples call. */
+  baseUrl: string;
+}
+
+/**
+ * What the `operation` template is rendered with. Blocks are rendered Markdown, without a
+ * trailing newline and empty when there is nothing to show.
+ */
+export interface OperationTemplateContext {
+  /** `<a id>` link target, set only when something links to operations. */
+  anchor: string;
+  /** Upper-case HTTP method or message action. */
+  method: string;
+  path: string;
+  /** `METHOD /path`. */
+  label: string;
+  /** The summary, else the operation id, else "No summary". */
+  title: string;
+  summary?: string;
+  operationId?: string;
+  description: string;
+  deprecated: boolean;
+  tags: string[];
+  /** The security requirements in words; empty when the spec declares no security at all. */
+  authentication: string;
+  /** Base URL the usage snippets call. */
+  baseUrl: string;
+  /** The operation's own servers, when it or its path overrides the spec's. */
+  servers: string;
+  /** Parameter lines, each from the `parameter` template. */
+  parameters: string;
+  hasRequestBody: boolean;
+  /** The request body's fields (from the `field` template) and content types. */
+  requestBody: string;
+  /** Whether there are parameters or a request body. */
+  hasInput: boolean;
+  /** The request examples, each from the `example` template. */
+  requestExamples: string;
+  /** Each response with its fields, examples, headers and links. */
+  output: string;
+  callbacks: string;
+  /** Whether usage snippets apply; messages (AsyncAPI) have none. */
+  hasSnippets: boolean;
+  snippets: { label: string; fence: string; code: string }[];
+}
+
+/** What the `parameter` template is rendered with, once per parameter or response header. */
+export interface ParameterTemplateContext {
+  /** Leading spaces of the line's nesting level. */
+  indent: string;
+  name: string;
+  /** `path`, `query`, `header` or `cookie`. */
+  in: string;
+  required: boolean;
+  deprecated: boolean;
+  /** Type, constraints, serialization and example, e.g. "string, format: uuid". */
+  details: string;
+  description: string;
+  /** Set for a header of a response rather than a request parameter. */
+  responseHeader: boolean;
+}
+
+/** What the `field` template is rendered with, once per object property. */
+export interface FieldTemplateContext {
+  /** Leading spaces of the field's nesting level. */
+  indent: string;
+  name: string;
+  required: boolean;
+  /** Type and constraints, or a link to a shared schema. */
+  details: string;
+  description: string;
+  /** Nesting level, 0 for top-level fields. */
+  depth: number;
+  /** Name of the shared schema the field links to instead of listing its fields. */
+  sharedSchema?: string;
+}
+
+/** What the `example` template is rendered with, once per example. */
+export interface ExampleTemplateContext {
+  /** Leading spaces of the block's nesting level; examples under a response are indented. */
+  indent: string;
+  /** The default title, e.g. "**Full Example**". */
+  title: string;
+  /** Which example this is; `is` has the same as flags for sections, e.g. `{{#is.response}}`. */
+  kind: 'required' | 'full' | 'response' | 'schema';
+  is: Record<'required' | 'full' | 'response' | 'schema', boolean>;
+  mediaType: string;
+  /** Whether the media type is named in the title, i.e. there are several. */
+  showMediaType: boolean;
+  /** Language of the code fence, e.g. `json`. */
+  fence: string;
+  /** The formatted example, each line indented by `indent`. */
+  code: string;
+}
+
+export interface ConversionOptions {
+  /** Path of the root spec, used as the base for relative `$ref`s. */
+  fileName?: string;
+  /** Other uploaded files (path -> raw JSON/YAML) that relative `$ref`s may point into. */
+  externalFiles?: Record<string, string>;
+  outputMode?: OutputMode;
+  /** Defaults to `llm-txt`. Other formats ignore the layout, snippet, compaction and shared schema options. */
+  format?: OutputFormat;
+  /** Languages rendered under "Usage Examples"; defaults to cURL only. */
+  snippetLanguages?: SnippetLanguage[];
+  /** Maximum nesting of object/array fields rendered in schema lists; deeper fields are omitted. */
+  maxSchemaDepth?: number;
+  /** Seed for made-up example values; the same seed always produces the same output. */
+  exampleSeed?: number;
+  /** Target size of each output file in estimated tokens; the output is compacted until it fits. */
+  tokenBudget?: number;
+  /** Render widely used `components.schemas` entries once in a Schemas section and link to them. */
+  sharedSchemas?: boolean;
+  /** Minimum number of operations using a schema before it is shared; defaults to 2. */
+  sharedSchemaMinUses?: number;
+  /** Minimum number of top-level fields a schema needs to be shared; smaller ones stay inline. Defaults to 3. */
+  sharedSchemaMinFields?: number;
+  /** Converts only the operations this filter keeps. */
+  filter?: OperationFilter;
+  /**
+   * Which of the spec's servers usage snippets call; defaults to the first. Path and operation
+   * `servers` lists use the same position when they have it, else their first server.
+   */
+  serverIndex?: number;
+  /** A base URL to call instead of the spec's servers, e.g. a local or staging deployment. */
+  serverUrl?: string;
+  /** Values for server URL variables by name, in place of their defaults. */
+  serverVariables?: Record<string, string>;
+  /** Replace parts of the llm.txt layout; see `TemplateSlot`. */
+  templates?: OutputTemplates;
+  /** Record which spec location each operation, parameter and field line of llm-txt output comes from. */
+  sourceMap?: boolean;
+}
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node library and the CLI (`npm run build:node`), separately from the web app.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist/node',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        cli: 'cli.ts',
+        lib: 'lib.ts',
+      },
+      output: {
+        entryFileNames: '[name].js',
+      },
+    },
+  },
+});